@@ -1,10 +1,87 @@
+export const SEVERITIES = ['blocker', 'major', 'minor', 'nit', 'question', 'praise'] as const;
+
+export type Severity = typeof SEVERITIES[number];
+
+export const isSeverity = (value: unknown): value is Severity => SEVERITIES.includes(value as Severity);
+
+export interface CommentAnchor {
+    // Whitespace-normalised text of the anchored line and its neighbours.
+    text: string;
+    before: string[];
+    after: string[];
+    // Line number of the anchored line in the `hash` revision, when known.
+    baseLineNumber?: number;
+}
+
+export interface CommentReply {
+    id: string;
+    author: string;
+    authorEmail?: string;
+    body: string;
+    createdAt: string;
+}
+
+export interface CommentSuggestion {
+    // The commented code when the suggestion was made, used to refuse stale suggestions.
+    original: string;
+    replacement: string;
+}
+
+// The commented code and the lines around it, kept in case the commit goes away, e.g. after a rebase and `git gc`.
+export interface CommentSnapshot {
+    lines: string[];
+    // The 1-based lines of `lines` that were commented on.
+    startLine: number;
+    endLine: number;
+    // Subject of the commit in `hash`, to recognise the commit after it was rewritten.
+    subject?: string;
+}
+
 export interface Comment {
     id: string;
     content: string;
+    // Name of the workspace folder the comment belongs to; fileName is relative to it.
+    workspaceFolder?: string;
     fileName: string;
+    // The file's path in `hash`, when it was renamed or moved since.
+    originalFileName?: string;
     lineNumber: number;
+    // Optional end of a multi-line range, and 1-based columns for partial-line ranges.
+    endLineNumber?: number;
+    startColumn?: number;
+    endColumn?: number;
     hash: string;
     parentHash: string;
     createdAt: string;
     completed: boolean;
+    // Who completed the comment and when; cleared when it is reopened.
+    resolvedBy?: string;
+    resolvedAt?: string;
+    anchor?: CommentAnchor;
+    outdated?: boolean;
+    // Set when the file was deleted since `hash`; the comment is then only shown on that revision.
+    orphaned?: boolean;
+    snapshot?: CommentSnapshot;
+    // Set when `hash` no longer exists and no rewritten commit was found; the snapshot is then all that is left.
+    commitMissing?: boolean;
+    // From `git config user.name` and `user.email` when the comment was made.
+    author?: string;
+    authorEmail?: string;
+    replies?: CommentReply[];
+    severity?: Severity;
+    category?: string;
+    tags?: string[];
+    suggestion?: CommentSuggestion;
+    // The review session the comment was made in.
+    reviewId?: string;
+}
+
+// A comment in Recently Deleted, from where it can be restored until it expires.
+export interface DeletedComment {
+    comment: Comment;
+    deletedAt: string;
 }
+
+export type CommentPosition = Pick<Comment, 'lineNumber' | 'endLineNumber' | 'startColumn' | 'endColumn'>;
+
+export const getEndLineNumber = (comment: CommentPosition): number => Math.max(comment.endLineNumber ?? comment.lineNumber, comment.lineNumber);
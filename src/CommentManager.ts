@@ -1,142 +1,683 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
-import * as path from 'path';
-import * as yaml from 'js-yaml';
-import { exec } from 'child_process';
-import { promisify } from 'util';
-import { Comment } from './Comment';
+import { Comment, DeletedComment, getEndLineNumber } from './Comment';
+import { Review } from './Review';
+import { createSnapshot, findAnchoredLine, reanchorComment } from './anchoring';
+import { AuthorIdentity, isCommentOnFile, setCompleted, sortComments, sortReviews } from './comments';
+import { gitService, isPseudoRevision } from './git/GitService';
+import { parseGitUri } from './git/gitUri';
+import { CommentStore } from './CommentStore';
+import { YamlCommentStorage, createStorage } from './storage';
+import { getCurrentIdentity, loadAuthorIdentities } from './utils/author';
+import { formatTimestampWithTimezone } from './utils/time';
 
-const execPromise = promisify(exec);
+// One comment before and after an operation; undefined when it didn't exist.
+interface CommentChange {
+    before?: Comment;
+    after?: Comment;
+    // Set when the comment was restored from Recently Deleted, where undoing puts it back.
+    restored?: boolean;
+}
+
+// One review before and after an operation, like CommentChange.
+interface ReviewChange {
+    before?: Review;
+    after?: Review;
+}
+
+interface Operation {
+    label: string;
+    changes: CommentChange[];
+    reviewChanges?: ReviewChange[];
+}
+
+const MAX_HISTORY = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STATE_KEYS = {
+    deletedComments: 'code-review-comments.deletedComments'
+};
+
+const clone = <T>(entry: T): T => JSON.parse(JSON.stringify(entry));
+
+export class CommentManager implements vscode.Disposable {
+    private stores = new Map<string, CommentStore>();
 
-export class CommentManager {
-    private comments: Comment[] = [];
-    private storagePath: string | undefined;
+    private _onDidChange: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+    // Fires when comments were reloaded because their file was changed outside the extension.
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
 
-    constructor() {
-        if (vscode.workspace.workspaceFolders && vscode.workspace.workspaceFolders.length > 0) {
-            this.storagePath = path.join(vscode.workspace.workspaceFolders[0].uri.fsPath, '.vscode', 'diff-comments.yaml');
+    private readonly watcher = vscode.workspace.createFileSystemWatcher('**/.vscode/diff-comments.yaml');
+
+    // Operations that can be undone and redone, most recent last.
+    private undoStack: Operation[] = [];
+    private redoStack: Operation[] = [];
+    // Each comment as of the last operation, since callers change comments in place before updating them.
+    private snapshots = new Map<string, Comment>();
+
+    // `state` keeps the Recently Deleted comments of the workspace.
+    constructor(private readonly state: vscode.Memento) {
+        this.watcher.onDidChange(uri => this.onStorageFileChanged(uri));
+        this.watcher.onDidCreate(uri => this.onStorageFileChanged(uri));
+        this.watcher.onDidDelete(uri => this.onStorageFileChanged(uri));
+    }
+
+    // Reloads a folder's comments when e.g. `git pull` changed its file, ignoring our own writes.
+    private async onStorageFileChanged(uri: vscode.Uri) {
+        const store = [...this.stores.values()].find(s => s.storage instanceof YamlCommentStorage && s.storage.storagePath === uri.fsPath);
+        if (!store) {
+            return;
+        }
+        await store.flush();
+        if ((store.storage as YamlCommentStorage).hasExternalChanges()) {
+            await store.load();
+            this.clearHistory();
+            this._onDidChange.fire();
         }
-        this.loadComments();
     }
 
-    private loadComments() {
-        try {
-            if (this.storagePath && fs.existsSync(this.storagePath)) {
-                const data = fs.readFileSync(this.storagePath, 'utf8');
-                this.comments = yaml.load(data) as Comment[];
+    // Keeps one store per workspace folder, e.g. after folders are added to or removed from the workspace.
+    public async syncWorkspaceFolders() {
+        const folders = vscode.workspace.workspaceFolders ?? [];
+        const keys = new Set(folders.map(folder => folder.uri.toString()));
+        for (const key of [...this.stores.keys()]) {
+            if (!keys.has(key)) {
+                this.stores.delete(key);
             }
-        } catch (error) {
-            console.error('Error loading comments:', error);
         }
+        for (const folder of folders) {
+            if (!this.stores.has(folder.uri.toString())) {
+                const store = new CommentStore(folder, createStorage(folder));
+                store.onDidMerge(() => {
+                    this.clearHistory();
+                    this._onDidChange.fire();
+                });
+                await store.load();
+                this.stores.set(folder.uri.toString(), store);
+            }
+        }
+        await loadAuthorIdentities(folders.map(folder => folder.uri.fsPath));
+        this.clearHistory();
     }
 
-    private saveComments() {
-        try {
-            if (this.storagePath) {
-                const dir = path.dirname(this.storagePath);
-                if (!fs.existsSync(dir)) {
-                    fs.mkdirSync(dir, { recursive: true });
-                }
-                fs.writeFileSync(this.storagePath, yaml.dump(this.comments));
-            }
-        } catch (error) {
-            console.error('Error saving comments:', error);
+    /**
+     * Reloads the comments of the given folders, or of all of them, from their storage backend,
+     * e.g. after the backend setting changed or notes were synced.
+     */
+    public async reloadStores(folders: vscode.WorkspaceFolder[] = this.getWorkspaceFolders()) {
+        for (const folder of folders) {
+            await this.stores.get(folder.uri.toString())?.flush();
+            this.stores.delete(folder.uri.toString());
         }
+        await this.syncWorkspaceFolders();
+    }
+
+    // Resolves once all pending saves have been written.
+    public async flush() {
+        await Promise.all([...this.stores.values()].map(store => store.flush()));
+    }
+
+    public getWorkspaceFolders(): vscode.WorkspaceFolder[] {
+        return [...this.stores.values()].map(store => store.folder);
+    }
+
+    public getWorkspaceFolder(name: string | undefined): vscode.WorkspaceFolder | undefined {
+        return this.getWorkspaceFolders().find(folder => folder.name === name);
+    }
+
+    // Who the user is in the git config of the comment's workspace folder.
+    public getAuthorIdentity(comment: Comment): AuthorIdentity {
+        return getCurrentIdentity(this.getWorkspaceFolder(comment.workspaceFolder)?.uri.fsPath);
+    }
+
+    private getStoreForUri(uri: vscode.Uri): CommentStore | undefined {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        return folder ? this.stores.get(folder.uri.toString()) : undefined;
+    }
+
+    private getStoreForComment(id: string): CommentStore | undefined {
+        return [...this.stores.values()].find(store => store.comments.some(comment => comment.id === id));
+    }
+
+    /**
+     * Where a comment for the given file would be stored: its workspace folder and the path
+     * relative to that folder. Undefined for files outside the workspace.
+     */
+    public getCommentLocation(uri: vscode.Uri): { workspaceFolder: string; fileName: string } | undefined {
+        const store = this.getStoreForUri(uri);
+        return store ? { workspaceFolder: store.folder.name, fileName: store.toFileName(uri) } : undefined;
+    }
+
+    // Pass `original` for the path the file had in the comment's revision, before any renames.
+    public getCommentUri(comment: Comment, original = false): vscode.Uri | undefined {
+        const store = this.getStoreForComment(comment.id)
+            ?? [...this.stores.values()].find(s => s.folder.name === comment.workspaceFolder);
+        return store?.resolve(original ? comment.originalFileName ?? comment.fileName : comment.fileName);
+    }
+
+    /**
+     * The comments on a file. Pass `revision` for the file as of a commit, where comments made
+     * on that commit still go by the path the file had there.
+     */
+    public getCommentsForUri(uri: vscode.Uri, revision?: string): Comment[] {
+        const store = this.getStoreForUri(uri);
+        if (!store) {
+            return [];
+        }
+        const fileName = store.toFileName(uri);
+        return store.comments.filter(comment => isCommentOnFile(comment, fileName, revision));
+    }
+
+    /**
+     * The comments shown in an editor of a `file:` or `git:` URI, with the line each is shown on.
+     * A `git:` editor shows a revision, where comments made on it are still on their original line.
+     */
+    public getCommentsShownIn(uri: vscode.Uri): { comment: Comment; lineNumber: number }[] {
+        if (uri.scheme === 'file') {
+            return this.getCommentsForUri(uri).map(comment => ({ comment, lineNumber: comment.lineNumber }));
+        }
+        const query = uri.scheme === 'git' ? parseGitUri(uri) : undefined;
+        if (!query) {
+            return [];
+        }
+        return this.getCommentsForUri(vscode.Uri.file(query.path), query.ref)
+            .filter(comment => comment.hash === query.ref)
+            .map(comment => ({ comment, lineNumber: comment.anchor?.baseLineNumber ?? comment.lineNumber }));
+    }
+
+    /**
+     * Moves the comments on a file, or on every file in a folder, that was renamed in the editor.
+     * Git only detects such renames once the new file is added. Returns true when any comment moved.
+     */
+    public moveComments(oldUri: vscode.Uri, newUri: vscode.Uri): boolean {
+        const store = this.getStoreForUri(oldUri);
+        if (!store || store !== this.getStoreForUri(newUri)) {
+            return false;
+        }
+        const from = store.toFileName(oldUri);
+        const to = store.toFileName(newUri);
+        let moved = false;
+        store.comments
+            .filter(comment => comment.fileName === from || comment.fileName.startsWith(`${from}/`))
+            .forEach(comment => {
+                comment.originalFileName ??= comment.fileName;
+                comment.fileName = to + comment.fileName.substring(from.length);
+                delete comment.orphaned;
+                moved = true;
+            });
+        if (moved) {
+            store.save();
+            this.rememberComments();
+        }
+        return moved;
     }
 
     public addComment(comment: Comment) {
-        this.comments.push(comment);
-        this.saveComments();
+        const store = [...this.stores.values()].find(s => s.folder.name === comment.workspaceFolder);
+        if (!store) {
+            vscode.window.showErrorMessage(`No workspace folder named "${comment.workspaceFolder}" to store the comment in.`);
+            return;
+        }
+        store.comments.push(comment);
+        store.save();
+        this.record('Add Comment', [{ after: comment }]);
     }
 
-    public getComments(): Comment[] {
-        return this.comments.sort((a, b) => {
-            if (a.completed === b.completed) {
-                // Convert ISO strings to Date objects for comparison
-                const dateA = new Date(a.createdAt);
-                const dateB = new Date(b.createdAt);
-                return dateB.getTime() - dateA.getTime();
-            }
-            return a.completed ? 1 : -1;
+    public addComments(comments: Comment[]) {
+        const changedStores = new Set<CommentStore>();
+        const added: Comment[] = [];
+        comments.forEach(comment => {
+            const store = [...this.stores.values()].find(s => s.folder.name === comment.workspaceFolder);
+            if (store) {
+                store.comments.push(comment);
+                changedStores.add(store);
+                added.push(comment);
+            }
         });
+        changedStores.forEach(store => store.save());
+        this.record('Add Comments', added.map(comment => ({ after: comment })));
     }
 
+    public getComments(): Comment[] {
+        return sortComments([...this.stores.values()].flatMap(store => store.comments));
+    }
+
+    public getComment(id: string): Comment | undefined {
+        return this.getStoreForComment(id)?.comments.find(comment => comment.id === id);
+    }
+
+    // Moves the comment to Recently Deleted.
     public deleteComment(id: string) {
-        this.comments = this.comments.filter(comment => comment.id !== id);
-        this.saveComments();
+        const store = this.getStoreForComment(id);
+        if (store) {
+            this.record('Delete Comment', this.removeComments(store, comment => comment.id === id));
+            store.save();
+        }
     }
 
-    public updateComment(updatedComment: Comment) {
-        const index = this.comments.findIndex(comment => comment.id === updatedComment.id);
-        if (index !== -1) {
-            this.comments[index] = updatedComment;
-            this.saveComments();
+    // `label` names the change for Undo and Redo.
+    public updateComment(updatedComment: Comment, label = 'Edit Comment') {
+        const store = this.getStoreForComment(updatedComment.id);
+        if (!store) {
+            return;
         }
+        const index = store.comments.findIndex(comment => comment.id === updatedComment.id);
+        store.comments[index] = updatedComment;
+        store.save();
+        this.record(label, [{ before: this.snapshots.get(updatedComment.id), after: updatedComment }]);
     }
 
-    public deleteAllComments() {
-        this.comments = [];
-        this.saveComments();
+    /**
+     * Moves every comment made in the given review, or every comment outside a review when
+     * undefined, to Recently Deleted.
+     */
+    public deleteAllComments(reviewId: string | undefined) {
+        const changes: CommentChange[] = [];
+        this.stores.forEach(store => {
+            const removed = this.removeComments(store, comment => comment.reviewId === reviewId);
+            if (removed.length > 0) {
+                changes.push(...removed);
+                store.save();
+            }
+        });
+        this.record('Delete All Comments', changes);
+    }
+
+    // Newest first.
+    public getReviews(): Review[] {
+        return sortReviews([...this.stores.values()].flatMap(store => store.reviews));
+    }
+
+    public getReview(id: string): Review | undefined {
+        return this.getReviews().find(review => review.id === id);
+    }
+
+    public addReview(review: Review) {
+        const store = [...this.stores.values()].find(s => s.folder.name === review.workspaceFolder);
+        if (!store) {
+            vscode.window.showErrorMessage(`No workspace folder named "${review.workspaceFolder}" to store the review in.`);
+            return;
+        }
+        store.reviews.push(review);
+        store.save();
+    }
+
+    public updateReview(updatedReview: Review) {
+        const store = [...this.stores.values()].find(s => s.reviews.some(review => review.id === updatedReview.id));
+        if (!store) {
+            return;
+        }
+        store.reviews = store.reviews.map(review => review.id === updatedReview.id ? updatedReview : review);
+        store.save();
+    }
+
+    // Deletes a review together with the comments made in it.
+    public deleteReview(id: string) {
+        const changes: CommentChange[] = [];
+        const reviewChanges: ReviewChange[] = [];
+        this.stores.forEach(store => {
+            const review = store.reviews.find(r => r.id === id);
+            if (review) {
+                store.reviews = store.reviews.filter(r => r.id !== id);
+                reviewChanges.push({ before: review });
+                changes.push(...this.removeComments(store, comment => comment.reviewId === id));
+                store.save();
+            }
+        });
+        this.record('Delete Review', changes, reviewChanges);
     }
 
     public toggleAllCommentsCompleted() {
-        const allCompleted = this.comments.every(comment => comment.completed);
-        this.comments.forEach(comment => {
-            comment.completed = !allCompleted;
+        const allCompleted = this.getComments().every(comment => comment.completed);
+        const changes: CommentChange[] = [];
+        const now = formatTimestampWithTimezone(new Date());
+        this.stores.forEach(store => {
+            const resolvedBy = getCurrentIdentity(store.folder.uri.fsPath).name;
+            store.comments.forEach(comment => {
+                if (comment.completed !== !allCompleted) {
+                    setCompleted(comment, !allCompleted, resolvedBy, now);
+                    changes.push({ before: this.snapshots.get(comment.id), after: comment });
+                }
+            });
+            store.save();
         });
-        this.saveComments();
+        this.record(allCompleted ? 'Reopen All Comments' : 'Complete All Comments', changes);
     }
 
-    public async getBlameCommitForLine(fileUri: vscode.Uri, lineNumber: number): Promise<{ commitHash: string; parentHash: string } | undefined> {
-        try {
-            const gitExtension = vscode.extensions.getExtension('vscode.git');
-            if (!gitExtension) {
-                vscode.window.showWarningMessage('Git extension not found.');
-                return undefined;
+    // The label of the operation Undo would revert, if any.
+    public get undoLabel(): string | undefined {
+        return this.undoStack[this.undoStack.length - 1]?.label;
+    }
+
+    public get redoLabel(): string | undefined {
+        return this.redoStack[this.redoStack.length - 1]?.label;
+    }
+
+    // Reverts the most recent operation and returns its label, or undefined when there is none.
+    public undo(): string | undefined {
+        const operation = this.undoStack.pop();
+        if (operation) {
+            // Reviews first, so the comments made in them come back into an existing review.
+            this.applyReviewChanges((operation.reviewChanges ?? []).map(change => ({ before: change.after, after: change.before })));
+            this.applyChanges(operation.changes.map(change => ({ before: change.after, after: change.before, restored: change.restored })), true);
+            this.redoStack.push(operation);
+        }
+        return operation?.label;
+    }
+
+    // Repeats the most recently undone operation and returns its label, or undefined when there is none.
+    public redo(): string | undefined {
+        const operation = this.redoStack.pop();
+        if (operation) {
+            this.applyChanges(operation.changes);
+            this.applyReviewChanges(operation.reviewChanges ?? []);
+            this.undoStack.push(operation);
+        }
+        return operation?.label;
+    }
+
+    // Deleted comments, newest first.
+    public getDeletedComments(): DeletedComment[] {
+        return [...this.state.get<DeletedComment[]>(STATE_KEYS.deletedComments, [])]
+            .sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+    }
+
+    // Permanently deletes the comments in Recently Deleted that are older than the retention period.
+    public pruneDeletedComments() {
+        const retentionDays = vscode.workspace.getConfiguration('code-review-comments').get<number>('trash.retentionDays', 30);
+        const deleted = this.getDeletedComments();
+        const kept = deleted.filter(entry => Date.now() - new Date(entry.deletedAt).getTime() < retentionDays * DAY_MS);
+        if (kept.length !== deleted.length) {
+            this.setDeletedComments(kept);
+        }
+    }
+
+    // Moves a comment from Recently Deleted back to its workspace folder. Returns false when that folder isn't open.
+    public restoreComment(id: string): boolean {
+        const deleted = this.getDeletedComments().find(entry => entry.comment.id === id);
+        const store = deleted && [...this.stores.values()].find(s => s.folder.name === deleted.comment.workspaceFolder);
+        if (!deleted || !store) {
+            return false;
+        }
+        const comment = clone(deleted.comment);
+        if (comment.reviewId && !store.reviews.some(review => review.id === comment.reviewId)) {
+            // The review was deleted along with it.
+            delete comment.reviewId;
+        }
+        store.comments.push(comment);
+        store.save();
+        this.setDeletedComments(this.getDeletedComments().filter(entry => entry.comment.id !== id));
+        this.record('Restore Comment', [{ after: comment, restored: true }]);
+        return true;
+    }
+
+    // Permanently deletes comments from Recently Deleted, or all of them when no ids are given.
+    public purgeDeletedComments(ids?: string[]) {
+        this.setDeletedComments(ids ? this.getDeletedComments().filter(entry => !ids.includes(entry.comment.id)) : []);
+    }
+
+    /**
+     * Moves comments back onto the code they were made on after the file has been edited, and
+     * flags the ones whose code no longer exists as outdated. Comments on rewritten commits and
+     * on files that were renamed follow them first. Returns true when anything changed. Pass a
+     * file URI to only re-anchor the comments on that file.
+     */
+    public async reanchorComments(uri?: vscode.Uri): Promise<boolean> {
+        const location = uri ? this.getCommentLocation(uri) : undefined;
+        if (uri && !location) {
+            return false;
+        }
+
+        let changed = false;
+        for (const store of this.stores.values()) {
+            if (location && store.folder.name !== location.workspaceFolder) {
+                continue;
             }
-            const git = gitExtension.exports;
-            const api = git.getAPI(1);
+            let storeChanged = !location && await this.followRewrittenCommits(store);
+            storeChanged = (!location && await this.followRenames(store)) || storeChanged;
+            const commentsByFile = new Map<string, Comment[]>();
+            store.comments
+                .filter(comment => comment.anchor && !comment.orphaned && (!location || comment.fileName === location.fileName))
+                .forEach(comment => {
+                    commentsByFile.set(comment.fileName, [...(commentsByFile.get(comment.fileName) ?? []), comment]);
+                });
 
-            const repo = api.getRepository(fileUri);
-            if (!repo) {
-                vscode.window.showWarningMessage('No Git repository found for the current file.');
-                return undefined;
+            for (const [file, comments] of commentsByFile) {
+                const absoluteFileName = store.resolve(file).fsPath;
+                const lines = fs.existsSync(absoluteFileName) ? fs.readFileSync(absoluteFileName, 'utf8').split(/\r?\n/) : [];
+                const diffs = new Map<string, string | undefined>();
+                for (const comment of comments) {
+                    const key = `${comment.hash}:${comment.originalFileName ?? ''}`;
+                    if (!diffs.has(key)) {
+                        diffs.set(key, await gitService.getWorkingTreeDiff(store.folder.uri.fsPath, comment.hash, file, comment.originalFileName));
+                    }
+                    if (reanchorComment(comment, lines, diffs.get(key))) {
+                        storeChanged = true;
+                    }
+                }
             }
 
-            const repoRoot = repo.rootUri.fsPath;
-            const relativeFilePath = path.relative(repoRoot, fileUri.fsPath);
+            if (storeChanged) {
+                store.save();
+                changed = true;
+            }
+        }
+        if (changed) {
+            this.rememberComments();
+        }
+        return changed;
+    }
+
+    /**
+     * Moves comments off commits that are no longer reachable, e.g. after a rebase or an amend,
+     * onto the commit that replaced them. When there is none and the commit is gone for good,
+     * the comment is flagged with `commitMissing` and shown from its snapshot. Comments made
+     * before snapshots existed get one while their commit is still there. Returns true when any
+     * comment changed.
+     */
+    private async followRewrittenCommits(store: CommentStore): Promise<boolean> {
+        const cwd = store.folder.uri.fsPath;
+        const comments = store.comments.filter(comment => !isPseudoRevision(comment.hash));
+        if (comments.length === 0) {
+            return false;
+        }
+        let changed = false;
+        const states = await gitService.getCommitStates(cwd, comments.map(comment => comment.hash));
+        for (const comment of comments) {
+            let state = states.get(comment.hash);
+            if (state === undefined) {
+                // Not a full commit hash, e.g. from an import.
+                continue;
+            }
+            if (state !== 'reachable') {
+                const rewritten = await gitService.findRewrittenCommit(cwd, comment.hash, comment.snapshot?.subject);
+                if (rewritten) {
+                    await this.moveToCommit(store, comment, rewritten);
+                    state = 'reachable';
+                    changed = true;
+                }
+            }
+            if ((state === 'missing') !== !!comment.commitMissing) {
+                if (state === 'missing') {
+                    comment.commitMissing = true;
+                } else {
+                    delete comment.commitMissing;
+                }
+                changed = true;
+            }
+            if (!comment.snapshot && state !== 'missing' && comment.anchor?.baseLineNumber !== undefined) {
+                const lines = await gitService.getFileLines(cwd, comment.hash, comment.originalFileName ?? comment.fileName);
+                if (lines) {
+                    const baseEndLineNumber = comment.anchor.baseLineNumber + getEndLineNumber(comment) - comment.lineNumber;
+                    comment.snapshot = createSnapshot(lines, comment.anchor.baseLineNumber, baseEndLineNumber, await gitService.getSubject(cwd, comment.hash));
+                    changed = true;
+                }
+            }
+        }
+        return changed;
+    }
 
-            const command = `git blame --porcelain -L ${lineNumber},${lineNumber} "${relativeFilePath}"`;
-            const { stdout, stderr } = await execPromise(command, { cwd: repoRoot });
+    // Points a comment at the commit that replaced its own, finding its line there again.
+    private async moveToCommit(store: CommentStore, comment: Comment, commit: string) {
+        const cwd = store.folder.uri.fsPath;
+        comment.hash = commit;
+        comment.parentHash = await gitService.getParent(cwd, commit);
+        delete comment.commitMissing;
+        if (comment.anchor?.baseLineNumber !== undefined) {
+            const lines = await gitService.getFileLines(cwd, commit, comment.originalFileName ?? comment.fileName);
+            const baseLineNumber = lines && findAnchoredLine(lines, comment.anchor, comment.anchor.baseLineNumber);
+            if (baseLineNumber) {
+                comment.anchor.baseLineNumber = baseLineNumber;
+            } else {
+                delete comment.anchor.baseLineNumber;
+            }
+        }
+    }
 
-            if (stderr) {
-                vscode.window.showErrorMessage(`Git blame error: ${stderr}`);
-                return undefined;
+    /**
+     * Moves comments whose file is gone to where git's rename detection says the file went
+     * since the comment's revision, keeping the old path in `originalFileName`. Comments whose
+     * file was deleted are flagged as orphaned. Returns true when any comment changed.
+     */
+    private async followRenames(store: CommentStore): Promise<boolean> {
+        let changed = false;
+        const renamesByHash = new Map<string, Map<string, string | undefined>>();
+        for (const comment of store.comments) {
+            if (fs.existsSync(store.resolve(comment.fileName).fsPath)) {
+                // Restored, e.g. by checking out another branch.
+                if (comment.orphaned) {
+                    delete comment.orphaned;
+                    changed = true;
+                }
+                continue;
+            }
+            if (!renamesByHash.has(comment.hash)) {
+                renamesByHash.set(comment.hash, await gitService.getRenames(store.folder.uri.fsPath, comment.hash));
+            }
+            const originalFileName = comment.originalFileName ?? comment.fileName;
+            const renamed = renamesByHash.get(comment.hash)!.get(originalFileName);
+            if (renamed && fs.existsSync(store.resolve(renamed).fsPath)) {
+                comment.originalFileName = originalFileName;
+                comment.fileName = renamed;
+                delete comment.orphaned;
+                changed = true;
+            } else if (!comment.orphaned) {
+                comment.orphaned = true;
+                changed = true;
             }
+        }
+        return changed;
+    }
 
-            const lines = stdout.split('\n');
-            if (lines.length > 0) {
-                const commitHash = lines[0].split(' ')[0];
-                let parentHash = '';
+    // Takes the matching comments out of a store and into Recently Deleted, unless discarded, and returns the changes.
+    private removeComments(store: CommentStore, predicate: (comment: Comment) => boolean, discard = false): CommentChange[] {
+        const removed = store.comments.filter(predicate);
+        store.comments = store.comments.filter(comment => !predicate(comment));
+        if (removed.length > 0 && !discard) {
+            const deletedAt = formatTimestampWithTimezone(new Date());
+            const ids = new Set(removed.map(comment => comment.id));
+            this.setDeletedComments([
+                ...removed.map(comment => ({ comment: clone(comment), deletedAt })),
+                ...this.getDeletedComments().filter(entry => !ids.has(entry.comment.id))
+            ]);
+            this.pruneDeletedComments();
+        }
+        return removed.map(comment => ({ before: comment }));
+    }
 
-                try {
-                    const commit = await repo.getCommit(commitHash);
-                    if (commit && commit.parents.length > 0) {
-                        parentHash = commit.parents[0];
-                    }
-                } catch (err) {
-                    // If getting commit details fails, parentHash remains empty
-                    console.error(`Failed to get parent commit for blame hash ${commitHash}:`, err);
+    /**
+     * Sets comments to the state after the changes. Comments that no longer exist go to Recently
+     * Deleted, except when undoing added ones, which are discarded as if they were never made.
+     */
+    private applyChanges(changes: CommentChange[], undoing = false) {
+        const changedStores = new Set<CommentStore>();
+        for (const change of changes) {
+            const comment = change.after ?? change.before!;
+            const store = this.getStoreForComment(comment.id) ?? [...this.stores.values()].find(s => s.folder.name === comment.workspaceFolder);
+            if (!store) {
+                continue;
+            }
+            if (change.after) {
+                const restored = clone(change.after);
+                const index = store.comments.findIndex(c => c.id === restored.id);
+                if (index === -1) {
+                    store.comments.push(restored);
+                } else {
+                    store.comments[index] = restored;
                 }
+                this.snapshots.set(restored.id, clone(restored));
+                this.setDeletedComments(this.getDeletedComments().filter(entry => entry.comment.id !== restored.id));
+            } else {
+                this.removeComments(store, c => c.id === comment.id, undoing && !change.restored);
+                this.snapshots.delete(comment.id);
+            }
+            changedStores.add(store);
+        }
+        changedStores.forEach(store => store.save());
+    }
 
-                return { commitHash, parentHash };
+    // Sets reviews to the state after the changes.
+    private applyReviewChanges(changes: ReviewChange[]) {
+        const changedStores = new Set<CommentStore>();
+        for (const change of changes) {
+            const review = change.after ?? change.before!;
+            const store = [...this.stores.values()].find(s => s.folder.name === review.workspaceFolder);
+            if (!store) {
+                continue;
             }
-        } catch (error) {
-            console.error('Error in getBlameCommitForLine:', error);
-            vscode.window.showErrorMessage('Failed to get blame information.');
+            store.reviews = store.reviews.filter(r => r.id !== review.id);
+            if (change.after) {
+                store.reviews.push(clone(change.after));
+            }
+            changedStores.add(store);
         }
-        return undefined;
+        changedStores.forEach(store => store.save());
     }
 
+    private record(label: string, changes: CommentChange[], reviewChanges: ReviewChange[] = []) {
+        const recorded = changes
+            .map(change => ({ ...change, before: change.before && clone(change.before), after: change.after && clone(change.after) }))
+            .filter(change => JSON.stringify(change.before) !== JSON.stringify(change.after));
+        recorded.forEach(change => {
+            const comment = change.after ?? change.before!;
+            if (change.after) {
+                this.snapshots.set(comment.id, clone(change.after));
+            } else {
+                this.snapshots.delete(comment.id);
+            }
+        });
+        if (recorded.length === 0 && reviewChanges.length === 0) {
+            return;
+        }
+        this.undoStack.push({
+            label,
+            changes: recorded,
+            ...(reviewChanges.length > 0 ? { reviewChanges: reviewChanges.map(change => ({ before: change.before && clone(change.before), after: change.after && clone(change.after) })) } : {})
+        });
+        if (this.undoStack.length > MAX_HISTORY) {
+            this.undoStack.shift();
+        }
+        this.redoStack = [];
+    }
+
+    // Forgets the operations, e.g. after the comments were reloaded, since they may no longer apply.
+    private clearHistory() {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.rememberComments();
+    }
+
+    // Takes new snapshots, e.g. after re-anchoring, so undoing an edit doesn't undo the move too.
+    private rememberComments() {
+        this.snapshots = new Map(this.getComments().map(comment => [comment.id, clone(comment)]));
+    }
+
+    private setDeletedComments(deleted: DeletedComment[]) {
+        this.state.update(STATE_KEYS.deletedComments, deleted);
+    }
 
+    public dispose() {
+        this.watcher.dispose();
+        this._onDidChange.dispose();
+    }
 }
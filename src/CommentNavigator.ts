@@ -0,0 +1,184 @@
+import * as vscode from 'vscode';
+import { CommentManager } from './CommentManager';
+import { Comment } from './Comment';
+import { getCommentRange } from './commentRange';
+import { parseGitUri } from './git/gitUri';
+
+type Direction = 1 | -1;
+
+// Where a comment or the cursor is, in the order comments are stepped through.
+interface Position {
+    workspaceFolder: string;
+    fileName: string;
+    lineNumber: number;
+}
+
+const comparePositions = (a: Position, b: Position): number =>
+    a.workspaceFolder.localeCompare(b.workspaceFolder) || a.fileName.localeCompare(b.fileName) || a.lineNumber - b.lineNumber;
+
+const positionOf = (comment: Comment): Position => ({
+    workspaceFolder: comment.workspaceFolder ?? '',
+    fileName: comment.fileName,
+    lineNumber: comment.lineNumber
+});
+
+const isDiffTabActive = (): boolean => vscode.window.tabGroups.activeTabGroup.activeTab?.input instanceof vscode.TabInputTextDiff;
+
+/**
+ * Steps through the open comments by file and then line, across the workspace or within the
+ * active editor, wrapping around at either end. A status bar item shows where you are.
+ */
+export class CommentNavigator implements vscode.Disposable {
+    private readonly statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+    private readonly disposables: vscode.Disposable[] = [];
+    // The comment navigated to last, and whether only the comments of its file were stepped through.
+    private current: { id: string; inFile: boolean } | undefined;
+
+    constructor(private readonly commentManager: CommentManager) {
+        this.statusBarItem.command = 'code-review-comments.nextComment';
+        this.statusBarItem.tooltip = 'Go to Next Comment';
+        this.disposables.push(vscode.window.onDidChangeActiveTextEditor(() => this.updateStatusBar()));
+    }
+
+    async next(): Promise<void> {
+        await this.navigate(1);
+    }
+
+    async previous(): Promise<void> {
+        await this.navigate(-1);
+    }
+
+    // Like next, but only through the comments of the file in the active editor.
+    nextInFile(): void {
+        this.navigateInFile(1);
+    }
+
+    previousInFile(): void {
+        this.navigateInFile(-1);
+    }
+
+    // Call when comments changed, so the status bar counts them again.
+    refresh(): void {
+        this.updateStatusBar();
+    }
+
+    private getOpenComments(): Comment[] {
+        return this.commentManager.getComments()
+            .filter(comment => !comment.completed)
+            .sort((a, b) => comparePositions(positionOf(a), positionOf(b))
+                || (a.startColumn ?? 0) - (b.startColumn ?? 0)
+                || a.createdAt.localeCompare(b.createdAt));
+    }
+
+    private async navigate(direction: Direction): Promise<void> {
+        const comments = this.getOpenComments();
+        if (comments.length === 0) {
+            vscode.window.showInformationMessage('There are no open comments.');
+            return;
+        }
+        const comment = comments[this.findIndex(comments, direction, this.getCursorPosition())];
+        this.current = { id: comment.id, inFile: false };
+        // Stay in diffs while stepping through diffs; orphaned comments only exist in one.
+        if (comment.orphaned || isDiffTabActive()) {
+            await vscode.commands.executeCommand('code-review-comments.showDiff', comment);
+        } else {
+            const uri = this.commentManager.getCommentUri(comment);
+            if (!uri) {
+                return;
+            }
+            const editor = await vscode.window.showTextDocument(uri, { preview: true, selection: getCommentRange(comment) });
+            editor.revealRange(editor.selection, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        }
+        this.updateStatusBar();
+    }
+
+    private navigateInFile(direction: Direction): void {
+        const editor = vscode.window.activeTextEditor;
+        const comments = editor ? this.getCommentsInEditor(editor) : [];
+        if (!editor || comments.length === 0) {
+            vscode.window.showInformationMessage('There are no open comments in this file.');
+            return;
+        }
+        const cursor = editor.selection.active.line + 1;
+        const currentIndex = comments.findIndex(({ comment }) => comment.id === this.current?.id);
+        let index: number;
+        if (currentIndex !== -1 && comments[currentIndex].lineNumber === cursor) {
+            index = (currentIndex + direction + comments.length) % comments.length;
+        } else {
+            index = direction === 1
+                ? comments.findIndex(({ lineNumber }) => lineNumber > cursor)
+                : comments.map(({ lineNumber }) => lineNumber < cursor).lastIndexOf(true);
+            if (index === -1) {
+                index = direction === 1 ? 0 : comments.length - 1;
+            }
+        }
+        const { comment, lineNumber } = comments[index];
+        this.current = { id: comment.id, inFile: true };
+        const range = getCommentRange(comment, lineNumber);
+        editor.selection = new vscode.Selection(range.start, range.end);
+        editor.revealRange(editor.selection, vscode.TextEditorRevealType.InCenterIfOutsideViewport);
+        this.updateStatusBar();
+    }
+
+    // The open comments shown in an editor, with the line each is shown on.
+    private getCommentsInEditor(editor: vscode.TextEditor): { comment: Comment; lineNumber: number }[] {
+        return this.commentManager.getCommentsShownIn(editor.document.uri)
+            .filter(({ comment }) => !comment.completed)
+            .sort((a, b) => a.lineNumber - b.lineNumber || (a.comment.startColumn ?? 0) - (b.comment.startColumn ?? 0));
+    }
+
+    // The cursor of the active editor, when it shows a file of the workspace.
+    private getCursorPosition(): Position | undefined {
+        const editor = vscode.window.activeTextEditor;
+        if (!editor) {
+            return undefined;
+        }
+        const uri = editor.document.uri;
+        const path = uri.scheme === 'file' ? uri.fsPath : uri.scheme === 'git' ? parseGitUri(uri)?.path : undefined;
+        const location = path ? this.commentManager.getCommentLocation(vscode.Uri.file(path)) : undefined;
+        return location && { ...location, lineNumber: editor.selection.active.line + 1 };
+    }
+
+    /**
+     * The comment to go to: the one after (or before) the comment navigated to last while the
+     * cursor is still on it, and otherwise the one after (or before) the cursor.
+     */
+    private findIndex(comments: Comment[], direction: Direction, cursor: Position | undefined): number {
+        const currentIndex = comments.findIndex(comment => comment.id === this.current?.id);
+        const current = comments[currentIndex];
+        if (current && (!cursor || comparePositions(positionOf(current), cursor) === 0)) {
+            return (currentIndex + direction + comments.length) % comments.length;
+        }
+        if (!cursor) {
+            return direction === 1 ? 0 : comments.length - 1;
+        }
+        const index = direction === 1
+            ? comments.findIndex(comment => comparePositions(positionOf(comment), cursor) > 0)
+            : comments.map(comment => comparePositions(positionOf(comment), cursor) < 0).lastIndexOf(true);
+        return index !== -1 ? index : direction === 1 ? 0 : comments.length - 1;
+    }
+
+    // Shows "Comment N of M" while the comment navigated to last is open in the active editor.
+    private updateStatusBar(): void {
+        const editor = vscode.window.activeTextEditor;
+        const comments = this.current?.inFile && editor
+            ? this.getCommentsInEditor(editor).map(({ comment }) => comment)
+            : this.getOpenComments();
+        const index = comments.findIndex(comment => comment.id === this.current?.id);
+        const comment = comments[index];
+        const uri = comment && this.commentManager.getCommentUri(comment, !!comment.orphaned);
+        const editorPath = editor?.document.uri.scheme === 'git' ? parseGitUri(editor.document.uri)?.path : editor?.document.uri.fsPath;
+        if (!comment || !uri || editorPath !== uri.fsPath) {
+            this.statusBarItem.hide();
+            return;
+        }
+        this.statusBarItem.text = `$(comment) Comment ${index + 1} of ${comments.length}${this.current?.inFile ? ' in this file' : ''}`;
+        this.statusBarItem.command = this.current?.inFile ? 'code-review-comments.nextCommentInFile' : 'code-review-comments.nextComment';
+        this.statusBarItem.show();
+    }
+
+    dispose(): void {
+        this.statusBarItem.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
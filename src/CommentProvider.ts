@@ -1,37 +1,329 @@
 import * as vscode from 'vscode';
-import { Comment } from './Comment';
+import { Comment, DeletedComment, getEndLineNumber } from './Comment';
+import { AuthorIdentity, COMMENT_STATUSES, STATUS_LABELS, getAssignees, getCommentStatus, isAuthoredBy, isMentioned } from './comments';
+import { describeClassification, getCommentIcon } from './severity';
 
-export class CommentProvider implements vscode.TreeDataProvider<Comment> {
+export type GroupBy = 'none' | 'file' | 'commit' | 'status' | 'author' | 'review';
 
-    private _onDidChangeTreeData: vscode.EventEmitter<Comment | undefined | null | void> = new vscode.EventEmitter<Comment | undefined | null | void>();
-    readonly onDidChangeTreeData: vscode.Event<Comment | undefined | null | void> = this._onDidChangeTreeData.event;
+export const GROUP_BY_LABELS: Record<GroupBy, string> = {
+    none: 'None',
+    file: 'File',
+    commit: 'Commit',
+    status: 'Status',
+    author: 'Author',
+    review: 'Review'
+};
 
-    constructor(private comments: Comment[]) { }
+// Comments by the user, assigned to them with an `@mention`, or by one author ('' for comments without one).
+export type PeopleFilter = { kind: 'mine' } | { kind: 'assignedToMe' } | { kind: 'author'; author: string };
 
-    refresh(comments: Comment[]): void {
+type GroupKind = 'folder' | 'orphaned' | 'deleted' | Exclude<GroupBy, 'none'>;
+
+export interface CommentGroup {
+    kind: 'group';
+    groupKind: GroupKind;
+    id: string;
+    label: string;
+    children: CommentTreeNode[];
+    comments: Comment[];
+}
+
+export interface DeletedCommentNode extends DeletedComment {
+    kind: 'deleted';
+}
+
+export type CommentTreeNode = Comment | CommentGroup | DeletedCommentNode;
+
+export const isCommentGroup = (node: CommentTreeNode): node is CommentGroup => 'kind' in node && node.kind === 'group';
+
+export const isDeletedComment = (node: CommentTreeNode): node is DeletedCommentNode => 'kind' in node && node.kind === 'deleted';
+
+const GROUP_ICONS: Record<GroupKind, string> = {
+    folder: 'root-folder',
+    orphaned: 'warning',
+    deleted: 'trash',
+    file: 'file',
+    commit: 'git-commit',
+    status: 'pass',
+    author: 'account',
+    review: 'checklist'
+};
+
+const STATE_KEYS = {
+    groupBy: 'code-review-comments.groupBy',
+    filterText: 'code-review-comments.filterText',
+    openOnly: 'code-review-comments.openOnly',
+    peopleFilter: 'code-review-comments.peopleFilter'
+};
+
+const shortHash = (hash: string): string => hash && hash.length >= 7 ? hash.substring(0, 7) : (hash || 'n/a');
+
+const statusOf = (comment: Comment): string => STATUS_LABELS[getCommentStatus(comment)];
+
+export class CommentProvider implements vscode.TreeDataProvider<CommentTreeNode> {
+
+    private _onDidChangeTreeData: vscode.EventEmitter<CommentTreeNode | undefined | null | void> = new vscode.EventEmitter<CommentTreeNode | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<CommentTreeNode | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    /**
+     * `describeReview` names the review a comment was made in, for grouping by review, and
+     * `identityOf` tells who the user is in the comment's workspace folder.
+     */
+    constructor(
+        private comments: Comment[],
+        private deleted: DeletedComment[],
+        private readonly state: vscode.Memento,
+        private readonly describeReview: (reviewId: string) => string,
+        private readonly identityOf: (comment: Comment) => AuthorIdentity
+    ) {
+        this.updateContextKeys();
+    }
+
+    get groupBy(): GroupBy {
+        return this.state.get<GroupBy>(STATE_KEYS.groupBy, 'none');
+    }
+
+    get filterText(): string {
+        return this.state.get<string>(STATE_KEYS.filterText, '');
+    }
+
+    get openOnly(): boolean {
+        return this.state.get<boolean>(STATE_KEYS.openOnly, false);
+    }
+
+    get peopleFilter(): PeopleFilter | undefined {
+        return this.state.get<PeopleFilter>(STATE_KEYS.peopleFilter);
+    }
+
+    refresh(comments: Comment[], deleted: DeletedComment[]): void {
         this.comments = comments;
+        this.deleted = deleted;
         this._onDidChangeTreeData.fire();
     }
 
-    getTreeItem(element: Comment): vscode.TreeItem {
+    async setGroupBy(groupBy: GroupBy): Promise<void> {
+        await this.state.update(STATE_KEYS.groupBy, groupBy);
+        this.onViewStateChanged();
+    }
+
+    async setFilterText(filterText: string): Promise<void> {
+        await this.state.update(STATE_KEYS.filterText, filterText.trim());
+        this.onViewStateChanged();
+    }
+
+    async setOpenOnly(openOnly: boolean): Promise<void> {
+        await this.state.update(STATE_KEYS.openOnly, openOnly);
+        this.onViewStateChanged();
+    }
+
+    async setPeopleFilter(peopleFilter: PeopleFilter | undefined): Promise<void> {
+        await this.state.update(STATE_KEYS.peopleFilter, peopleFilter);
+        this.onViewStateChanged();
+    }
+
+    // Summary of the active filters, shown next to the view title.
+    describeFilters(): string | undefined {
+        const parts: string[] = [];
+        if (this.filterText) {
+            parts.push(`"${this.filterText}"`);
+        }
+        if (this.openOnly) {
+            parts.push('open only');
+        }
+        const peopleFilter = this.peopleFilter;
+        if (peopleFilter?.kind === 'mine') {
+            parts.push('mine');
+        } else if (peopleFilter?.kind === 'assignedToMe') {
+            parts.push('assigned to me');
+        } else if (peopleFilter?.kind === 'author') {
+            parts.push(`by ${peopleFilter.author || 'Unknown'}`);
+        }
+        return parts.length > 0 ? `Filtered: ${parts.join(', ')}` : undefined;
+    }
+
+    getTreeItem(element: CommentTreeNode): vscode.TreeItem {
+        if (isCommentGroup(element)) {
+            const groupItem = new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.Expanded);
+            const open = element.comments.filter(comment => !comment.completed).length;
+            groupItem.id = element.id;
+            groupItem.description = `${element.comments.length}`;
+            groupItem.tooltip = `${element.comments.length} comments, ${open} open`;
+            groupItem.contextValue = element.groupKind === 'deleted' ? 'deletedGroup' : 'group';
+            groupItem.iconPath = new vscode.ThemeIcon(GROUP_ICONS[element.groupKind]);
+            if (element.groupKind === 'deleted') {
+                groupItem.collapsibleState = vscode.TreeItemCollapsibleState.Collapsed;
+                groupItem.tooltip = `${element.comments.length} deleted comments, kept until they expire`;
+            }
+            return groupItem;
+        }
+        if (isDeletedComment(element)) {
+            const deletedItem = new vscode.TreeItem(element.comment.content, vscode.TreeItemCollapsibleState.None);
+            deletedItem.id = `deleted:${element.comment.id}`;
+            deletedItem.description = `${element.comment.fileName}:${element.comment.lineNumber} - deleted ${new Date(element.deletedAt).toLocaleString()}`;
+            deletedItem.tooltip = 'Restore the comment, or delete it permanently.';
+            deletedItem.contextValue = 'deletedComment';
+            deletedItem.iconPath = new vscode.ThemeIcon('comment-discussion', new vscode.ThemeColor('disabledForeground'));
+            return deletedItem;
+        }
         const treeItem = new vscode.TreeItem(element.content, vscode.TreeItemCollapsibleState.None);
-        const shortParent = element.parentHash && element.parentHash.length >= 7 ? element.parentHash.substring(0, 7) : (element.parentHash || 'n/a');
-        const shortHash = element.hash && element.hash.length >= 7 ? element.hash.substring(0, 7) : (element.hash || 'n/a');
-        treeItem.description = `${element.fileName}:${element.lineNumber} (${shortParent}<->${shortHash}) - ${new Date(element.createdAt).toLocaleString()}`;
+        const shortParent = shortHash(element.parentHash);
+        const outdatedLabel = (element.commitMissing ? 'Commit gone · ' : '') + (element.orphaned ? 'File deleted · ' : element.outdated ? 'Outdated · ' : '');
+        const replyCount = element.replies?.length ?? 0;
+        const repliesLabel = replyCount > 0 ? ` · ${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}` : '';
+        const endLineNumber = getEndLineNumber(element);
+        const lines = endLineNumber > element.lineNumber ? `${element.lineNumber}-${endLineNumber}` : `${element.lineNumber}`;
+        const classification = describeClassification(element);
+        const classificationLabel = classification ? `${classification} · ` : '';
+        treeItem.description = `${classificationLabel}${outdatedLabel}${element.fileName}:${lines} (${shortParent}<->${shortHash(element.hash)}) - ${new Date(element.createdAt).toLocaleString()}${repliesLabel}`;
         treeItem.command = {
             command: 'code-review-comments.showDiff',
             title: 'Show Diff',
             arguments: [element]
         };
-        treeItem.contextValue = 'comment';
-        treeItem.iconPath = new vscode.ThemeIcon(element.completed ? 'check' : 'comment');
+        // Menus match /^comment/, so items with a suggestion keep the regular comment actions.
+        treeItem.contextValue = element.suggestion ? 'comment-suggestion' : 'comment';
+        treeItem.iconPath = getCommentIcon(element);
+        const tooltip: string[] = [];
+        if (element.commitMissing) {
+            tooltip.push(element.snapshot
+                ? `Commit gone: ${shortHash(element.hash)} is no longer in the repository. Show Diff compares the code as it was commented on with the working tree.`
+                : `Commit gone: ${shortHash(element.hash)} is no longer in the repository.`);
+        }
+        if (element.orphaned) {
+            tooltip.push(`File deleted: ${element.originalFileName ?? element.fileName} no longer exists. Show Diff opens it as of ${shortHash(element.hash)}.`);
+        } else if (element.outdated) {
+            tooltip.push('Outdated: the code this comment was made on has changed.');
+        } else if (element.originalFileName) {
+            tooltip.push(`Renamed from ${element.originalFileName}`);
+        }
+        const assignees = getAssignees(element);
+        if (assignees.length > 0) {
+            tooltip.push(`Assigned to ${assignees.map(assignee => `@${assignee}`).join(', ')}`);
+        }
+        if (element.completed && element.resolvedBy) {
+            tooltip.push(`Resolved by ${element.resolvedBy}${element.resolvedAt ? ` on ${new Date(element.resolvedAt).toLocaleString()}` : ''}`);
+        }
+        treeItem.tooltip = tooltip.length > 0 ? tooltip.join('\n') : undefined;
         return treeItem;
     }
 
-    getChildren(element?: Comment): Thenable<Comment[]> {
+    getChildren(element?: CommentTreeNode): Thenable<CommentTreeNode[]> {
         if (element) {
-            return Promise.resolve([]);
+            return Promise.resolve(isCommentGroup(element) ? element.children : []);
+        }
+        const comments = this.comments.filter(comment => this.matchesFilters(comment));
+        // Only a multi-root workspace needs the extra level of workspace folders.
+        if ((vscode.workspace.workspaceFolders?.length ?? 0) <= 1) {
+            return Promise.resolve([...this.group(comments, ''), ...this.getDeletedGroup()]);
+        }
+        const folders = this.buildGroups(comments, 'folder', '', comment => comment.workspaceFolder ?? '');
+        folders.forEach(folder => {
+            folder.children = this.group(folder.comments, folder.id);
+        });
+        return Promise.resolve([...folders.sort((a, b) => a.label.localeCompare(b.label)), ...this.getDeletedGroup()]);
+    }
+
+    // Recently Deleted, after everything else and only when it isn't empty.
+    private getDeletedGroup(): CommentGroup[] {
+        if (this.deleted.length === 0) {
+            return [];
+        }
+        return [{
+            kind: 'group',
+            groupKind: 'deleted',
+            id: '/deleted',
+            label: 'Recently Deleted',
+            children: this.deleted.map(deleted => ({ kind: 'deleted', ...deleted })),
+            comments: this.deleted.map(deleted => deleted.comment)
+        }];
+    }
+
+    private matchesFilters(comment: Comment): boolean {
+        if (this.openOnly && comment.completed) {
+            return false;
+        }
+        if (!this.matchesPeopleFilter(comment)) {
+            return false;
         }
-        return Promise.resolve(this.comments);
+        const text = this.filterText.toLowerCase();
+        if (!text) {
+            return true;
+        }
+        return [
+            comment.content, comment.fileName, comment.originalFileName ?? '', comment.author ?? '', comment.hash, comment.severity ?? '', comment.category ?? '',
+            ...(comment.tags ?? []).map(tag => `#${tag}`), ...(comment.replies ?? []).map(reply => reply.body)
+        ].some(value => value.toLowerCase().includes(text));
+    }
+
+    private matchesPeopleFilter(comment: Comment): boolean {
+        const peopleFilter = this.peopleFilter;
+        switch (peopleFilter?.kind) {
+            case 'mine':
+                return isAuthoredBy(comment, this.identityOf(comment));
+            case 'assignedToMe':
+                return isMentioned(comment, this.identityOf(comment));
+            case 'author':
+                return (comment.author ?? '') === peopleFilter.author;
+            default:
+                return true;
+        }
+    }
+
+    // Comments on deleted files are kept apart, whatever the grouping.
+    private group(comments: Comment[], parentId: string): CommentTreeNode[] {
+        const nodes = this.groupComments(comments.filter(comment => !comment.orphaned), parentId);
+        const orphaned = this.buildGroups(comments.filter(comment => comment.orphaned), 'orphaned', parentId, () => 'Orphaned');
+        return [...nodes, ...orphaned];
+    }
+
+    private groupComments(comments: Comment[], parentId: string): CommentTreeNode[] {
+        switch (this.groupBy) {
+            case 'file':
+                return this.buildGroups(comments, 'file', parentId, comment => comment.fileName)
+                    .sort((a, b) => a.label.localeCompare(b.label));
+            case 'commit':
+                // Comments are sorted newest first, so commits keep the order of their newest comment.
+                return this.buildGroups(comments, 'commit', parentId, comment => comment.hash, key => shortHash(key));
+            case 'status': {
+                const order = COMMENT_STATUSES.map(status => STATUS_LABELS[status]);
+                return this.buildGroups(comments, 'status', parentId, statusOf)
+                    .sort((a, b) => order.indexOf(a.label) - order.indexOf(b.label));
+            }
+            case 'author':
+                return this.buildGroups(comments, 'author', parentId, comment => comment.author ?? 'Unknown')
+                    .sort((a, b) => a.label.localeCompare(b.label));
+            case 'review':
+                // Like commits, reviews keep the order of their newest comment.
+                return this.buildGroups(comments, 'review', parentId, comment => comment.reviewId ?? '', key => key ? this.describeReview(key) : 'No Review');
+            default:
+                return comments;
+        }
+    }
+
+    private buildGroups(comments: Comment[], groupKind: GroupKind, parentId: string, keyOf: (comment: Comment) => string, labelOf: (key: string) => string = key => key): CommentGroup[] {
+        const groups = new Map<string, CommentGroup>();
+        comments.forEach(comment => {
+            const key = keyOf(comment);
+            let group = groups.get(key);
+            if (!group) {
+                group = { kind: 'group', groupKind, id: `${parentId}/${groupKind}:${key}`, label: labelOf(key), children: [], comments: [] };
+                groups.set(key, group);
+            }
+            group.comments.push(comment);
+            group.children.push(comment);
+        });
+        return [...groups.values()];
+    }
+
+    private onViewStateChanged(): void {
+        this.updateContextKeys();
+        this._onDidChangeTreeData.fire();
+    }
+
+    private updateContextKeys(): void {
+        vscode.commands.executeCommand('setContext', 'code-review-comments.groupBy', this.groupBy);
+        vscode.commands.executeCommand('setContext', 'code-review-comments.openOnly', this.openOnly);
+        vscode.commands.executeCommand('setContext', 'code-review-comments.filtered', !!this.filterText);
+        vscode.commands.executeCommand('setContext', 'code-review-comments.peopleFiltered', !!this.peopleFilter);
     }
 }
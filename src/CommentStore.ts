@@ -0,0 +1,77 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Comment } from './Comment';
+import { Review } from './Review';
+import { CommentStorage } from './storage';
+
+const MAX_REPORTED_PROBLEMS = 3;
+
+// The comments of one workspace folder, persisted by the storage backend configured for it.
+export class CommentStore {
+    public comments: Comment[] = [];
+    public reviews: Review[] = [];
+    private pendingSave: Promise<void> = Promise.resolve();
+    private readonly _onDidMerge = new vscode.EventEmitter<void>();
+    // Fires when a save merged in changes made to the storage by someone else and the comments were reloaded.
+    readonly onDidMerge: vscode.Event<void> = this._onDidMerge.event;
+
+    constructor(public readonly folder: vscode.WorkspaceFolder, public readonly storage: CommentStorage) { }
+
+    public async load() {
+        try {
+            const { comments, reviews, problems } = await this.storage.load();
+            this.comments = comments;
+            this.reviews = reviews;
+            // Older files don't record their folder; they always belonged to the folder they live in.
+            [...this.comments, ...this.reviews].forEach(entry => {
+                entry.workspaceFolder = this.folder.name;
+            });
+            if (problems.length > 0) {
+                console.warn(`Skipped invalid comments for ${this.folder.name}:\n${problems.join('\n')}`);
+                const more = problems.length > MAX_REPORTED_PROBLEMS ? ` (and ${problems.length - MAX_REPORTED_PROBLEMS} more)` : '';
+                vscode.window.showWarningMessage(`Skipped ${problems.length} invalid comments in ${this.storage.description} of ${this.folder.name}: ${problems.slice(0, MAX_REPORTED_PROBLEMS).join('; ')}${more}. They are kept as they are until fixed.`);
+            }
+        } catch (error) {
+            this.comments = [];
+            this.reviews = [];
+            console.error(`Error loading comments for ${this.folder.name}:`, error);
+            vscode.window.showErrorMessage(`Failed to load the review comments of ${this.folder.name}: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Saves run one after the other, so a slow backend never writes an older list over a newer one.
+     * Each takes the comments as they are when it runs, which after a merge are the reloaded ones.
+     */
+    public save() {
+        this.pendingSave = this.pendingSave.then(async () => {
+            const result = await this.storage.save({ comments: [...this.comments], reviews: [...this.reviews] });
+            if (!result?.merged) {
+                return;
+            }
+            await this.load();
+            this._onDidMerge.fire();
+            if (result.conflicts.length > 0) {
+                const more = result.conflicts.length > MAX_REPORTED_PROBLEMS ? ` (and ${result.conflicts.length - MAX_REPORTED_PROBLEMS} more)` : '';
+                vscode.window.showWarningMessage(`${this.storage.description} of ${this.folder.name} was changed on disk while you edited ${result.conflicts.slice(0, MAX_REPORTED_PROBLEMS).join('; ')}${more}. The version on disk was kept; other changes were merged.`);
+            }
+        }).catch(error => {
+            console.error(`Error saving comments for ${this.folder.name}:`, error);
+            vscode.window.showErrorMessage(`Failed to save the review comments of ${this.folder.name} to ${this.storage.description}: ${(error as Error).message}`);
+        });
+    }
+
+    // Resolves once everything saved so far has been written.
+    public flush(): Promise<void> {
+        return this.pendingSave;
+    }
+
+    // Stored paths are relative to the folder and always use forward slashes.
+    public resolve(fileName: string): vscode.Uri {
+        return vscode.Uri.joinPath(this.folder.uri, ...fileName.split('/'));
+    }
+
+    public toFileName(uri: vscode.Uri): string {
+        return path.relative(this.folder.uri.fsPath, uri.fsPath).split(path.sep).join('/');
+    }
+}
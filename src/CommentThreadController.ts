@@ -0,0 +1,192 @@
+import * as vscode from 'vscode';
+import { Comment } from './Comment';
+import { CommentManager } from './CommentManager';
+import { getCommentRange } from './commentRange';
+import { describeClassification } from './severity';
+
+export class ThreadComment implements vscode.Comment {
+    public mode = vscode.CommentMode.Preview;
+    public body: string | vscode.MarkdownString;
+    public readonly contextValue: string;
+
+    constructor(
+        public readonly commentId: string,
+        // Undefined for the comment that opened the thread.
+        public readonly replyId: string | undefined,
+        public readonly rawBody: string,
+        public readonly author: vscode.CommentAuthorInformation,
+        public readonly timestamp: Date,
+        public readonly thread: vscode.CommentThread,
+        // Rendered below the body, but not part of what is edited.
+        private readonly footer = ''
+    ) {
+        this.body = new vscode.MarkdownString(rawBody + footer);
+        this.contextValue = replyId ? 'reply' : 'root';
+    }
+
+    get footerText(): string {
+        return this.footer;
+    }
+}
+
+function renderSuggestion(comment: Comment): string {
+    if (!comment.suggestion) {
+        return '';
+    }
+    const diff = [
+        ...comment.suggestion.original.split('\n').map(line => `- ${line}`),
+        ...comment.suggestion.replacement.split('\n').map(line => `+ ${line}`)
+    ];
+    return `\n\n**Suggested change**\n\n\`\`\`diff\n${diff.join('\n')}\n\`\`\``;
+}
+
+/**
+ * Shows each comment as a thread in its working tree file, and in the `git:` editors of the
+ * revisions it is shown in, e.g. the sides of a diff, for as long as those are visible.
+ */
+export class CommentThreadController implements vscode.Disposable {
+    private readonly controller: vscode.CommentController;
+    private readonly threads = new Map<string, vscode.CommentThread>();
+    // Threads in visible `git:` editors, by URI and then comment id.
+    private readonly revisionThreads = new Map<string, Map<string, vscode.CommentThread>>();
+    private readonly threadCommentIds = new WeakMap<vscode.CommentThread, string>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly commentManager: CommentManager) {
+        this.controller = vscode.comments.createCommentController('code-review-comments', 'Code Review Comments');
+        this.controller.options = { prompt: 'Reply…', placeHolder: 'Reply to this comment' };
+        this.disposables.push(vscode.window.onDidChangeVisibleTextEditors(() => this.refreshRevisionThreads()));
+    }
+
+    refresh(comments: Comment[]): void {
+        const seen = new Set<string>();
+
+        // Orphaned comments have no file to show a thread in.
+        comments.filter(comment => !comment.orphaned).forEach(comment => {
+            const uri = this.commentManager.getCommentUri(comment);
+            if (!uri) {
+                return;
+            }
+            seen.add(comment.id);
+            const range = getCommentRange(comment);
+
+            let thread = this.threads.get(comment.id);
+            if (thread && thread.uri.toString() !== uri.toString()) {
+                thread.dispose();
+                thread = undefined;
+            }
+            if (!thread) {
+                thread = this.createThread(uri, range, comment.id);
+                this.threads.set(comment.id, thread);
+            }
+            this.updateThread(thread, comment, range);
+        });
+
+        for (const [id, thread] of this.threads) {
+            if (!seen.has(id)) {
+                thread.dispose();
+                this.threads.delete(id);
+            }
+        }
+        this.refreshRevisionThreads();
+    }
+
+    // Opens the file of the comments' threads and expands them. Returns false when none has a thread.
+    async reveal(commentIds: string[]): Promise<boolean> {
+        const threads = commentIds.map(id => this.threads.get(id)).filter((thread): thread is vscode.CommentThread => !!thread);
+        if (threads.length === 0) {
+            return false;
+        }
+        await vscode.window.showTextDocument(threads[0].uri, { preview: true, selection: threads[0].range });
+        threads.forEach(thread => {
+            thread.collapsibleState = vscode.CommentThreadCollapsibleState.Expanded;
+        });
+        return true;
+    }
+
+    getCommentId(thread: vscode.CommentThread): string | undefined {
+        return this.threadCommentIds.get(thread);
+    }
+
+    setEditing(threadComment: ThreadComment, editing: boolean): void {
+        const thread = threadComment.thread;
+        thread.comments = thread.comments.map(c => {
+            if (c === threadComment) {
+                c.mode = editing ? vscode.CommentMode.Editing : vscode.CommentMode.Preview;
+                c.body = editing ? threadComment.rawBody : new vscode.MarkdownString(threadComment.rawBody + threadComment.footerText);
+            }
+            return c;
+        });
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.threads.forEach(thread => thread.dispose());
+        this.threads.clear();
+        this.revisionThreads.forEach(threads => threads.forEach(thread => thread.dispose()));
+        this.revisionThreads.clear();
+        this.controller.dispose();
+    }
+
+    private createThread(uri: vscode.Uri, range: vscode.Range, commentId: string): vscode.CommentThread {
+        const thread = this.controller.createCommentThread(uri, range, []);
+        thread.collapsibleState = vscode.CommentThreadCollapsibleState.Collapsed;
+        this.threadCommentIds.set(thread, commentId);
+        return thread;
+    }
+
+    // Adds threads to the `git:` editors that became visible and removes those of editors that were closed.
+    private refreshRevisionThreads(): void {
+        const uris = new Map(vscode.window.visibleTextEditors
+            .map(editor => editor.document.uri)
+            .filter(uri => uri.scheme === 'git')
+            .map(uri => [uri.toString(), uri]));
+        for (const [key, threads] of this.revisionThreads) {
+            if (!uris.has(key)) {
+                threads.forEach(thread => thread.dispose());
+                this.revisionThreads.delete(key);
+            }
+        }
+        uris.forEach((uri, key) => {
+            const threads = this.revisionThreads.get(key) ?? new Map<string, vscode.CommentThread>();
+            this.revisionThreads.set(key, threads);
+            const seen = new Set<string>();
+            this.commentManager.getCommentsShownIn(uri).forEach(({ comment, lineNumber }) => {
+                seen.add(comment.id);
+                const range = getCommentRange(comment, lineNumber);
+                let thread = threads.get(comment.id);
+                if (!thread) {
+                    thread = this.createThread(uri, range, comment.id);
+                    threads.set(comment.id, thread);
+                }
+                // A revision editor shows the code the comment was made on, where it is never outdated.
+                this.updateThread(thread, comment, range, false);
+            });
+            for (const [id, thread] of threads) {
+                if (!seen.has(id)) {
+                    thread.dispose();
+                    threads.delete(id);
+                }
+            }
+        });
+    }
+
+    private updateThread(thread: vscode.CommentThread, comment: Comment, range: vscode.Range, outdated = !!comment.outdated): void {
+        thread.range = range;
+        thread.label = [outdated ? 'Outdated' : '', describeClassification(comment)].filter(Boolean).join(' · ') || undefined;
+        thread.canReply = true;
+        thread.state = comment.completed ? vscode.CommentThreadState.Resolved : vscode.CommentThreadState.Unresolved;
+        thread.contextValue = `${comment.completed ? 'resolved' : 'unresolved'}${comment.suggestion ? '-suggestion' : ''}`;
+
+        // Don't throw away an edit that is being typed.
+        if (thread.comments.some(c => c.mode === vscode.CommentMode.Editing)) {
+            return;
+        }
+        thread.comments = [
+            new ThreadComment(comment.id, undefined, comment.content, { name: comment.author ?? 'Reviewer' }, new Date(comment.createdAt), thread, renderSuggestion(comment)),
+            ...(comment.replies ?? []).map(reply =>
+                new ThreadComment(comment.id, reply.id, reply.body, { name: reply.author }, new Date(reply.createdAt), thread)
+            )
+        ];
+    }
+}
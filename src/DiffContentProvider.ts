@@ -1,16 +1,89 @@
 import * as vscode from 'vscode';
+import { Comment, getEndLineNumber } from './Comment';
+import { CommentManager } from './CommentManager';
+import { getSuggestedContent } from './suggestions';
 
+export type ContentKind = 'suggestion' | 'snapshot' | 'current';
+
+interface ContentQuery {
+    id?: string;
+    kind?: ContentKind;
+}
+
+// Where the working tree excerpt for a comment's snapshot starts, as a 0-based line.
+const getExcerptStart = (comment: Comment): number => Math.max(0, comment.lineNumber - comment.snapshot!.startLine);
+
+/**
+ * The lines of the working tree file that correspond to a comment's snapshot: the commented
+ * lines where they are now, with as much context as the snapshot has.
+ */
+function getCurrentExcerpt(document: vscode.TextDocument, comment: Comment): string {
+    const snapshot = comment.snapshot!;
+    const start = getExcerptStart(comment);
+    const end = Math.min(document.lineCount, getEndLineNumber(comment) + snapshot.lines.length - snapshot.endLine);
+    const lines: string[] = [];
+    for (let line = start; line < end; line++) {
+        lines.push(document.lineAt(line).text);
+    }
+    return lines.join('\n');
+}
+
+// Serves read-only documents for our own diff views. The URI path is the file's path on disk and
+// the query names the comment, e.g. the file with a comment's suggestion applied, or the snapshot
+// of the code it was made on next to that code now.
 export class DiffContentProvider implements vscode.TextDocumentContentProvider {
     public static readonly scheme = 'diff-comments';
 
     private _onDidChange = new vscode.EventEmitter<vscode.Uri>();
     readonly onDidChange = this._onDidChange.event;
 
+    constructor(private readonly commentManager: CommentManager) { }
+
+    public static toSuggestionUri(fileUri: vscode.Uri, commentId: string): vscode.Uri {
+        return DiffContentProvider.toUri(fileUri, commentId, 'suggestion');
+    }
+
+    public static toUri(fileUri: vscode.Uri, commentId: string, kind: ContentKind): vscode.Uri {
+        return fileUri.with({ scheme: DiffContentProvider.scheme, query: JSON.stringify({ id: commentId, kind }) });
+    }
+
+    public static parseQuery(uri: vscode.Uri): ContentQuery {
+        try {
+            return JSON.parse(uri.query);
+        } catch {
+            return {};
+        }
+    }
+
+    // The line a comment is on in the snapshot or working tree excerpt that shows it.
+    public static getExcerptLineNumber(comment: Comment, kind: 'snapshot' | 'current'): number {
+        if (!comment.snapshot) {
+            return comment.lineNumber;
+        }
+        return kind === 'snapshot' ? comment.snapshot.startLine : comment.lineNumber - getExcerptStart(comment);
+    }
+
     public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
-        // This provider is no longer used for fetching git content directly.
-        // The 'vscode.diff' command now handles 'git:' URIs.
-        // If this provider is still being called, it indicates an unexpected scenario.
-        vscode.window.showErrorMessage(`DiffContentProvider called for URI: ${uri.toString()}. This should not happen for Git diffs.`);
-        return `Error: DiffContentProvider is deprecated for Git content. URI: ${uri.toString()}`;
+        const query = DiffContentProvider.parseQuery(uri);
+        const comment = query.id ? this.commentManager.getComment(query.id) : undefined;
+        if (!comment) {
+            return `Comment ${query.id ?? ''} no longer exists.`;
+        }
+        if (query.kind === 'snapshot') {
+            return comment.snapshot?.lines.join('\n') ?? '';
+        }
+        if (query.kind === 'suggestion' || query.kind === 'current') {
+            const document = await vscode.workspace.openTextDocument(vscode.Uri.file(uri.fsPath));
+            if (query.kind === 'current') {
+                return comment.snapshot ? getCurrentExcerpt(document, comment) : document.getText();
+            }
+            return getSuggestedContent(document, comment);
+        }
+        return '';
+    }
+
+    // Re-renders open previews, e.g. after the underlying file or comment changed.
+    public refresh(uri: vscode.Uri): void {
+        this._onDidChange.fire(uri);
     }
 }
@@ -0,0 +1,57 @@
+export const VERDICTS = ['approve', 'requestChanges', 'comment'] as const;
+
+export type Verdict = typeof VERDICTS[number];
+
+export const isVerdict = (value: unknown): value is Verdict => VERDICTS.includes(value as Verdict);
+
+export const VERDICT_LABELS: Record<Verdict, string> = {
+    approve: 'Approve',
+    requestChanges: 'Request Changes',
+    comment: 'Comment'
+};
+
+export interface ReviewFile {
+    // Relative to the workspace folder, like a comment's fileName.
+    fileName: string;
+    // The `git diff --name-status` letter, e.g. A, M, D or R.
+    status: string;
+    originalFileName?: string;
+    // Blob of the file when it was marked as viewed; a different blob means it changed since.
+    viewedBlob?: string;
+}
+
+export interface ChecklistItem {
+    text: string;
+    checked: boolean;
+    // Who ticked the item off and when; cleared when it is unticked.
+    checkedBy?: string;
+    checkedAt?: string;
+}
+
+// A copy of a checklist from `.vscode/review-checklists.yaml`, ticked off during one review.
+export interface ReviewChecklist {
+    name: string;
+    items: ChecklistItem[];
+}
+
+export interface Review {
+    id: string;
+    workspaceFolder?: string;
+    // The refs as entered, and the commits they pointed at when the review started.
+    baseRef: string;
+    headRef: string;
+    baseHash: string;
+    headHash: string;
+    createdAt: string;
+    author?: string;
+    files: ReviewFile[];
+    checklists?: ReviewChecklist[];
+    finishedAt?: string;
+    verdict?: Verdict;
+    summary?: string;
+}
+
+export const countUncheckedItems = (review: Review): number =>
+    (review.checklists ?? []).reduce((count, checklist) => count + checklist.items.filter(item => !item.checked).length, 0);
+
+export const describeReview = (review: Review): string => `${review.baseRef}..${review.headRef}`;
@@ -0,0 +1,210 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { randomBytes } from 'crypto';
+import { CommentManager } from './CommentManager';
+import { INDEX, WORKING_TREE } from './git/GitService';
+import { computeStatistics, statisticsToCsv } from './statistics';
+
+// Messages from the dashboard's page.
+type DashboardMessage =
+    | { type: 'showComment'; commentId: string }
+    | { type: 'exportCsv' };
+
+/**
+ * A webview panel with statistics on the health of the review: open and resolved counts, the
+ * age of open comments, how long resolving takes, and the files, commits and code regions with
+ * the most comments. It stays up to date while open.
+ */
+export class ReviewDashboard implements vscode.Disposable {
+    private panel: vscode.WebviewPanel | undefined;
+
+    constructor(private readonly commentManager: CommentManager) { }
+
+    show(): void {
+        if (this.panel) {
+            this.panel.reveal();
+            return;
+        }
+        this.panel = vscode.window.createWebviewPanel('code-review-comments.dashboard', 'Review Dashboard', vscode.ViewColumn.Active, {
+            enableScripts: true,
+            retainContextWhenHidden: true,
+            localResourceRoots: []
+        });
+        this.panel.webview.html = getHtml(this.panel.webview);
+        this.panel.webview.onDidReceiveMessage((message: DashboardMessage) => this.handleMessage(message));
+        this.panel.onDidDispose(() => {
+            this.panel = undefined;
+        });
+        this.refresh();
+    }
+
+    // Sends the current statistics to the panel, if it is open.
+    refresh(): void {
+        if (!this.panel) {
+            return;
+        }
+        this.panel.webview.postMessage({
+            type: 'update',
+            statistics: computeStatistics(this.commentManager.getComments()),
+            showFolders: this.commentManager.getWorkspaceFolders().length > 1
+        });
+    }
+
+    async exportCsv(): Promise<void> {
+        const comments = this.commentManager.getComments();
+        if (comments.length === 0) {
+            vscode.window.showInformationMessage('There are no comments to export.');
+            return;
+        }
+        const [folder] = this.commentManager.getWorkspaceFolders();
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: folder ? vscode.Uri.joinPath(folder.uri, 'review-statistics.csv') : undefined,
+            filters: { CSV: ['csv'] }
+        });
+        if (!target) {
+            return;
+        }
+        try {
+            fs.writeFileSync(target.fsPath, statisticsToCsv(comments));
+        } catch (error) {
+            console.error('Error exporting review statistics:', error);
+            vscode.window.showErrorMessage(`Failed to export review statistics to ${target.fsPath}.`);
+            return;
+        }
+        vscode.window.showInformationMessage(`Exported ${comments.length} comments to ${vscode.workspace.asRelativePath(target)}.`);
+    }
+
+    private handleMessage(message: DashboardMessage): void {
+        switch (message.type) {
+            case 'showComment':
+                if (this.commentManager.getComment(message.commentId)) {
+                    vscode.commands.executeCommand('code-review-comments.showDiff', message.commentId);
+                }
+                break;
+            case 'exportCsv':
+                this.exportCsv();
+                break;
+        }
+    }
+
+    dispose(): void {
+        this.panel?.dispose();
+    }
+}
+
+function getHtml(webview: vscode.Webview): string {
+    const nonce = randomBytes(16).toString('base64');
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>Review Dashboard</title>
+<style nonce="${nonce}">
+    body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); color: var(--vscode-foreground); padding: 0 20px 20px; }
+    header { display: flex; align-items: center; justify-content: space-between; }
+    button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 12px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+    .cards { display: flex; flex-wrap: wrap; gap: 12px; }
+    .card { border: 1px solid var(--vscode-panel-border); padding: 8px 16px; min-width: 110px; }
+    .card .value { font-size: 1.8em; font-weight: 600; }
+    .card .label, .muted { color: var(--vscode-descriptionForeground); }
+    .grid { display: grid; grid-template-columns: repeat(auto-fit, minmax(380px, 1fr)); gap: 0 32px; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { text-align: left; padding: 3px 8px 3px 0; vertical-align: top; }
+    th { color: var(--vscode-descriptionForeground); font-weight: normal; border-bottom: 1px solid var(--vscode-panel-border); }
+    td.number, th.number { text-align: right; white-space: nowrap; }
+    tr.link { cursor: pointer; }
+    tr.link:hover td { background: var(--vscode-list-hoverBackground); }
+    tr.link td:first-child { color: var(--vscode-textLink-foreground); word-break: break-all; }
+    .bar { height: 10px; background: var(--vscode-charts-blue); min-width: 1px; }
+    .bar.open { background: var(--vscode-charts-orange); }
+    td.bar-cell { width: 45%; }
+</style>
+</head>
+<body>
+<header>
+    <h1>Review Dashboard</h1>
+    <button id="export">Export CSV</button>
+</header>
+<div id="content"><p class="muted">Loading…</p></div>
+<script nonce="${nonce}">
+(function () {
+    const vscode = acquireVsCodeApi();
+    const revisionLabels = ${JSON.stringify({ [WORKING_TREE]: 'Working Tree', [INDEX]: 'Staged' })};
+    const content = document.getElementById('content');
+    document.getElementById('export').addEventListener('click', () => vscode.postMessage({ type: 'exportCsv' }));
+    content.addEventListener('click', event => {
+        const row = event.target.closest('tr[data-comment]');
+        if (row) {
+            vscode.postMessage({ type: 'showComment', commentId: row.dataset.comment });
+        }
+    });
+
+    const escape = text => String(text).replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]);
+    const days = value => value === undefined ? '–' : value < 1 ? \`\${Math.round(value * 24)} h\` : \`\${value.toFixed(1)} d\`;
+    const bar = (value, max, kind) => \`<td class="bar-cell"><div class="bar \${kind || ''}" data-width="\${max ? Math.round(value / max * 100) : 0}"></div></td>\`;
+    const card = (value, label) => \`<div class="card"><div class="value">\${escape(value)}</div><div class="label">\${escape(label)}</div></div>\`;
+    const section = (title, body) => \`<section><h2>\${escape(title)}</h2>\${body}</section>\`;
+    const table = (headers, rows, empty) => rows.length === 0
+        ? \`<p class="muted">\${escape(empty)}</p>\`
+        : \`<table><tr>\${headers.map(([label, number]) => \`<th class="\${number ? 'number' : ''}">\${escape(label)}</th>\`).join('')}</tr>\${rows.join('')}</table>\`;
+
+    function render({ statistics, showFolders }) {
+        const { summary } = statistics;
+        const place = entry => escape((showFolders && entry.workspaceFolder ? entry.workspaceFolder + '/' : '') + entry.fileName);
+        const link = (entry, cells) => \`<tr class="link" data-comment="\${escape(entry.commentId)}" title="Show Diff">\${cells}</tr>\`;
+        if (summary.total === 0) {
+            content.innerHTML = '<p class="muted">There are no review comments yet.</p>';
+            return;
+        }
+        const maxAge = Math.max(...statistics.ageBuckets.map(bucket => bucket.count));
+        const maxResolved = Math.max(...statistics.resolutionTrend.map(week => week.resolved));
+        const maxFile = Math.max(...statistics.files.map(file => file.total));
+        content.innerHTML = [
+            \`<div class="cards">\${[
+                card(statistics.unresolved, 'Unresolved'),
+                card(summary.byStatus.completed, 'Resolved'),
+                card(summary.byStatus.outdated, 'Outdated'),
+                card(summary.byStatus.orphaned, 'Orphaned'),
+                card(summary.files, summary.files === 1 ? 'File' : 'Files'),
+                card(days(statistics.medianDaysToResolve), 'Median Time to Resolve')
+            ].join('')}</div>\`,
+            '<div class="grid">',
+            section('Age of Open Comments', table([['Age'], ['Comments', true], ['']],
+                statistics.ageBuckets.map(bucket => \`<tr><td>\${escape(bucket.label)}</td><td class="number">\${bucket.count}</td>\${bar(bucket.count, maxAge, 'open')}</tr>\`),
+                'No open comments.')),
+            section('Oldest Open Comments', table([['Comment'], ['Age', true]],
+                statistics.oldestOpen.map(comment => link(comment, \`<td>\${place(comment)}:\${comment.lineNumber}<div class="muted">\${escape(comment.content.split('\\n')[0])}</div></td><td class="number">\${days(comment.ageDays)}</td>\`)),
+                'No open comments.')),
+            section('Resolved per Week', table([['Week of'], ['Resolved', true], ['Median', true], ['']],
+                statistics.resolutionTrend.map(week => \`<tr><td>\${escape(week.weekStart)}</td><td class="number">\${week.resolved}</td><td class="number">\${days(week.medianDaysToResolve)}</td>\${bar(week.resolved, maxResolved)}</tr>\`),
+                'Nothing resolved yet.')),
+            section('Hotspots', table([['Lines'], ['Comments', true], ['Unresolved', true]],
+                statistics.hotspots.map(hotspot => link(hotspot, \`<td>\${place(hotspot)}:\${hotspot.startLine}-\${hotspot.endLine}</td><td class="number">\${hotspot.total}</td><td class="number">\${hotspot.unresolved}</td>\`)),
+                'No code has several comments close together.')),
+            section('Comments per File', table([['File'], ['Comments', true], ['Unresolved', true], ['']],
+                statistics.files.map(file => link(file, \`<td>\${place(file)}</td><td class="number">\${file.total}</td><td class="number">\${file.unresolved}</td>\${bar(file.total, maxFile)}\`)),
+                'No comments.')),
+            section('Comments per Commit', table([['Commit'], ['Comments', true], ['Unresolved', true]],
+                statistics.commits.map(commit => link(commit, \`<td>\${escape(revisionLabels[commit.hash] ?? commit.hash.substring(0, 7))}</td><td class="number">\${commit.total}</td><td class="number">\${commit.unresolved}</td>\`)),
+                'No comments.')),
+            '</div>'
+        ].join('');
+        // The content security policy blocks style attributes, but not setting styles from the script.
+        content.querySelectorAll('.bar[data-width]').forEach(element => {
+            element.style.width = \`\${element.dataset.width}%\`;
+        });
+    }
+
+    window.addEventListener('message', event => {
+        if (event.data.type === 'update') {
+            render(event.data);
+        }
+    });
+}());
+</script>
+</body>
+</html>`;
+}
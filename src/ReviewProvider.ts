@@ -0,0 +1,215 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CommentManager } from './CommentManager';
+import { ChecklistItem, Review, ReviewChecklist, ReviewFile, VERDICT_LABELS, countUncheckedItems, describeReview } from './Review';
+import { getCurrentBlobs } from './reviews';
+
+export interface ReviewNode {
+    kind: 'review';
+    review: Review;
+}
+
+export interface ReviewFileNode {
+    kind: 'reviewFile';
+    review: Review;
+    file: ReviewFile;
+    // The file's blob in the working tree when the tree was built.
+    currentBlob: string;
+}
+
+export interface ChecklistNode {
+    kind: 'checklist';
+    review: Review;
+    checklist: ReviewChecklist;
+}
+
+export interface ChecklistItemNode {
+    kind: 'checklistItem';
+    review: Review;
+    checklist: ReviewChecklist;
+    item: ChecklistItem;
+}
+
+export type ReviewTreeNode = ReviewNode | ReviewFileNode | ChecklistNode | ChecklistItemNode;
+
+const VERDICT_ICONS = {
+    approve: 'pass',
+    requestChanges: 'request-changes',
+    comment: 'comment'
+};
+
+const STATE_KEYS = {
+    activeReviewId: 'code-review-comments.activeReviewId'
+};
+
+const shortHash = (hash: string): string => hash.substring(0, 7);
+
+// Viewed, and unchanged since: marking a file as viewed records its blob.
+const isFileViewed = (file: ReviewFile, currentBlob: string | undefined): boolean => !!file.viewedBlob && file.viewedBlob === currentBlob;
+
+const isViewed = (node: ReviewFileNode): boolean => isFileViewed(node.file, node.currentBlob);
+
+// Review sessions, newest first after the active one, with the files each of them covers.
+export class ReviewProvider implements vscode.TreeDataProvider<ReviewTreeNode> {
+
+    private _onDidChangeTreeData: vscode.EventEmitter<ReviewTreeNode | undefined | null | void> = new vscode.EventEmitter<ReviewTreeNode | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<ReviewTreeNode | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    // The working tree blobs of each review's files, hashed once per refresh.
+    private readonly blobs = new Map<string, Promise<Map<string, string>>>();
+
+    constructor(private readonly commentManager: CommentManager, private readonly state: vscode.Memento) {
+        this.updateContextKeys();
+    }
+
+    // The review that new comments are attached to, if one is in progress.
+    get activeReview(): Review | undefined {
+        const id = this.state.get<string>(STATE_KEYS.activeReviewId);
+        const review = id ? this.commentManager.getReview(id) : undefined;
+        return review && !review.finishedAt ? review : undefined;
+    }
+
+    async setActiveReview(review: Review | undefined): Promise<void> {
+        await this.state.update(STATE_KEYS.activeReviewId, review?.id);
+        this.refresh();
+    }
+
+    refresh(): void {
+        this.blobs.clear();
+        this.updateContextKeys();
+        this._onDidChangeTreeData.fire();
+    }
+
+    async getTreeItem(element: ReviewTreeNode): Promise<vscode.TreeItem> {
+        if (element.kind === 'reviewFile') {
+            return this.getFileItem(element);
+        }
+        if (element.kind === 'checklist') {
+            return this.getChecklistItem(element);
+        }
+        if (element.kind === 'checklistItem') {
+            return this.getChecklistEntryItem(element);
+        }
+        const review = element.review;
+        const isActive = review.id === this.activeReview?.id;
+        const item = new vscode.TreeItem(describeReview(review), isActive ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed);
+        const comments = this.commentManager.getComments().filter(comment => comment.reviewId === review.id);
+        const countLabel = `${review.files.length} files · ${comments.length} comments`;
+        item.id = review.id;
+        if (review.finishedAt && review.verdict) {
+            item.description = `${VERDICT_LABELS[review.verdict]} · ${countLabel} · ${new Date(review.finishedAt).toLocaleDateString()}`;
+            item.iconPath = new vscode.ThemeIcon(VERDICT_ICONS[review.verdict]);
+            item.contextValue = 'review-finished';
+        } else {
+            const blobs = await this.getCurrentBlobs(review);
+            const viewed = review.files.filter(file => isFileViewed(file, blobs.get(file.fileName))).length;
+            const itemCount = (review.checklists ?? []).reduce((count, checklist) => count + checklist.items.length, 0);
+            const checklistLabel = itemCount > 0 ? ` · ${itemCount - countUncheckedItems(review)}/${itemCount} checked` : '';
+            item.description = `${isActive ? 'Active' : 'In progress'} · ${viewed}/${review.files.length} viewed${checklistLabel} · ${comments.length} comments`;
+            item.iconPath = new vscode.ThemeIcon(isActive ? 'eye' : 'git-pull-request-draft');
+            item.contextValue = isActive ? 'review-active' : 'review-inProgress';
+        }
+        const summary = review.summary ? `\n\n${review.summary}` : '';
+        item.tooltip = `${describeReview(review)} (${shortHash(review.baseHash)}..${shortHash(review.headHash)})\nStarted ${new Date(review.createdAt).toLocaleString()}${review.author ? ` by ${review.author}` : ''}${summary}`;
+        return item;
+    }
+
+    private getFileItem(node: ReviewFileNode): vscode.TreeItem {
+        const { review, file } = node;
+        const item = new vscode.TreeItem(path.posix.basename(file.fileName), vscode.TreeItemCollapsibleState.None);
+        const folder = this.commentManager.getWorkspaceFolder(review.workspaceFolder);
+        if (folder) {
+            item.resourceUri = vscode.Uri.joinPath(folder.uri, ...file.fileName.split('/'));
+        }
+        const comments = this.commentManager.getComments().filter(comment => comment.reviewId === review.id && comment.fileName === file.fileName);
+        const dirname = path.posix.dirname(file.fileName);
+        const parts = [dirname === '.' ? '' : dirname, file.status].filter(Boolean);
+        if (comments.length > 0) {
+            parts.push(`${comments.length} comments`);
+        }
+        if (file.viewedBlob && !isViewed(node) && !review.finishedAt) {
+            parts.push('changed since viewed');
+        }
+        item.id = `${review.id}/${file.fileName}`;
+        item.description = parts.join(' · ');
+        item.tooltip = file.originalFileName ? `${file.originalFileName} → ${file.fileName}` : file.fileName;
+        item.contextValue = 'reviewFile';
+        if (!review.finishedAt) {
+            item.checkboxState = isViewed(node) ? vscode.TreeItemCheckboxState.Checked : vscode.TreeItemCheckboxState.Unchecked;
+        }
+        item.command = {
+            command: 'code-review-comments.openReviewFile',
+            title: 'Open Changes',
+            arguments: [node]
+        };
+        return item;
+    }
+
+    private getChecklistItem(node: ChecklistNode): vscode.TreeItem {
+        const { review, checklist } = node;
+        const checked = checklist.items.filter(item => item.checked).length;
+        const item = new vscode.TreeItem(checklist.name, review.finishedAt ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.Expanded);
+        item.id = `${review.id}/checklist:${checklist.name}`;
+        item.description = `${checked}/${checklist.items.length} checked`;
+        item.iconPath = new vscode.ThemeIcon('checklist');
+        item.contextValue = review.finishedAt ? 'reviewChecklist-finished' : 'reviewChecklist';
+        return item;
+    }
+
+    private getChecklistEntryItem(node: ChecklistItemNode): vscode.TreeItem {
+        const { review, checklist, item: entry } = node;
+        const item = new vscode.TreeItem(entry.text, vscode.TreeItemCollapsibleState.None);
+        item.id = `${review.id}/checklist:${checklist.name}/${checklist.items.indexOf(entry)}`;
+        if (entry.checked && entry.checkedBy) {
+            item.description = entry.checkedBy;
+            item.tooltip = `${entry.text}\nChecked by ${entry.checkedBy}${entry.checkedAt ? ` on ${new Date(entry.checkedAt).toLocaleString()}` : ''}`;
+        }
+        item.contextValue = 'reviewChecklistItem';
+        // A finished review can't be ticked off any more, but still shows what was.
+        if (review.finishedAt) {
+            item.iconPath = new vscode.ThemeIcon(entry.checked ? 'pass' : 'circle-large-outline');
+        } else {
+            item.checkboxState = entry.checked ? vscode.TreeItemCheckboxState.Checked : vscode.TreeItemCheckboxState.Unchecked;
+        }
+        return item;
+    }
+
+    async getChildren(element?: ReviewTreeNode): Promise<ReviewTreeNode[]> {
+        if (!element) {
+            const activeId = this.activeReview?.id;
+            return this.commentManager.getReviews()
+                .sort((a, b) => Number(b.id === activeId) - Number(a.id === activeId) || Number(!!a.finishedAt) - Number(!!b.finishedAt))
+                .map(review => ({ kind: 'review', review }));
+        }
+        if (element.kind === 'checklist') {
+            return element.checklist.items.map(item => ({ kind: 'checklistItem', review: element.review, checklist: element.checklist, item }));
+        }
+        if (element.kind !== 'review') {
+            return [];
+        }
+        const review = element.review;
+        const checklists: ReviewTreeNode[] = (review.checklists ?? []).map(checklist => ({ kind: 'checklist', review, checklist }));
+        const blobs = await this.getCurrentBlobs(review);
+        return [...checklists, ...review.files.map((file): ReviewTreeNode => ({ kind: 'reviewFile', review, file, currentBlob: blobs.get(file.fileName) ?? '' }))];
+    }
+
+    // Empty for finished reviews, whose files are no longer compared with the working tree.
+    private getCurrentBlobs(review: Review): Promise<Map<string, string>> {
+        let blobs = this.blobs.get(review.id);
+        if (!blobs) {
+            const folder = this.commentManager.getWorkspaceFolder(review.workspaceFolder);
+            blobs = folder && !review.finishedAt
+                ? getCurrentBlobs(folder.uri.fsPath, review.files.map(file => file.fileName)).catch(error => {
+                    console.error(`Failed to hash the files of review ${review.id}:`, error);
+                    return new Map<string, string>();
+                })
+                : Promise.resolve(new Map<string, string>());
+            this.blobs.set(review.id, blobs);
+        }
+        return blobs;
+    }
+
+    private updateContextKeys(): void {
+        vscode.commands.executeCommand('setContext', 'code-review-comments.reviewActive', !!this.activeReview);
+    }
+}
@@ -0,0 +1,168 @@
+import { Comment, CommentAnchor, CommentSnapshot } from './Comment';
+
+const CONTEXT_LINES = 2;
+const SNAPSHOT_CONTEXT_LINES = 5;
+const MIN_SIMILARITY = 0.8;
+
+const normalize = (line: string): string => line.trim().replace(/\s+/g, ' ');
+
+export function createAnchor(lines: string[], lineNumber: number, baseLineNumber?: number): CommentAnchor {
+    const index = lineNumber - 1;
+    return {
+        text: normalize(lines[index] ?? ''),
+        before: lines.slice(Math.max(0, index - CONTEXT_LINES), index).map(normalize),
+        after: lines.slice(index + 1, index + 1 + CONTEXT_LINES).map(normalize),
+        baseLineNumber
+    };
+}
+
+// The lines from `lineNumber` to `endLineNumber` with some context, as a snapshot of the commented code.
+export function createSnapshot(lines: string[], lineNumber: number, endLineNumber: number, subject?: string): CommentSnapshot {
+    const start = Math.max(0, lineNumber - 1 - SNAPSHOT_CONTEXT_LINES);
+    const end = Math.min(lines.length, endLineNumber + SNAPSHOT_CONTEXT_LINES);
+    const snapshot: CommentSnapshot = {
+        lines: lines.slice(start, end),
+        startLine: lineNumber - start,
+        endLine: endLineNumber - start
+    };
+    if (subject) {
+        snapshot.subject = subject;
+    }
+    return snapshot;
+}
+
+// Sørensen–Dice coefficient over character bigrams, good enough to survive small edits.
+function similarity(a: string, b: string): number {
+    if (a === b) {
+        return 1;
+    }
+    if (a.length < 2 || b.length < 2) {
+        return 0;
+    }
+    const bigrams = new Map<string, number>();
+    for (let i = 0; i < a.length - 1; i++) {
+        const bigram = a.substring(i, i + 2);
+        bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+    }
+    let matches = 0;
+    for (let i = 0; i < b.length - 1; i++) {
+        const bigram = b.substring(i, i + 2);
+        const count = bigrams.get(bigram) ?? 0;
+        if (count > 0) {
+            bigrams.set(bigram, count - 1);
+            matches++;
+        }
+    }
+    return (2 * matches) / (a.length + b.length - 2);
+}
+
+function contextScore(lines: string[], index: number, anchor: CommentAnchor): number {
+    let score = 0;
+    anchor.before.forEach((text, i) => {
+        const candidate = lines[index - anchor.before.length + i];
+        if (candidate !== undefined && normalize(candidate) === text) {
+            score++;
+        }
+    });
+    anchor.after.forEach((text, i) => {
+        const candidate = lines[index + 1 + i];
+        if (candidate !== undefined && normalize(candidate) === text) {
+            score++;
+        }
+    });
+    return score;
+}
+
+export function matchesAnchor(lines: string[], lineNumber: number, anchor: CommentAnchor): boolean {
+    const line = lines[lineNumber - 1];
+    return line !== undefined && normalize(line) === anchor.text;
+}
+
+/**
+ * Finds the line that best matches the anchor, preferring exact text matches with the most
+ * surrounding context intact and, on ties, the candidate closest to `hintLineNumber`.
+ */
+export function findAnchoredLine(lines: string[], anchor: CommentAnchor, hintLineNumber: number): number | undefined {
+    let best: { lineNumber: number; score: number } | undefined;
+    lines.forEach((line, index) => {
+        const textScore = similarity(normalize(line), anchor.text);
+        if (textScore < MIN_SIMILARITY) {
+            return;
+        }
+        // Blank or trivial anchors only count when their context still matches.
+        const context = contextScore(lines, index, anchor);
+        if (anchor.text.length < 3 && context === 0) {
+            return;
+        }
+        const score = textScore * 10 + context;
+        const lineNumber = index + 1;
+        if (!best || score > best.score
+            || (score === best.score && Math.abs(lineNumber - hintLineNumber) < Math.abs(best.lineNumber - hintLineNumber))) {
+            best = { lineNumber, score };
+        }
+    });
+    return best?.lineNumber;
+}
+
+/**
+ * Maps a line number in the old side of a `git diff -U0` onto the new side, or with `reverse`
+ * from the new side onto the old one. Returns undefined when the line itself was modified or
+ * removed.
+ */
+export function mapLineThroughDiff(diff: string, lineNumber: number, reverse = false): number | undefined {
+    let delta = 0;
+    for (const match of diff.matchAll(/^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/gm)) {
+        const [from, to] = reverse ? [3, 1] : [1, 3];
+        const oldStart = parseInt(match[from], 10);
+        const oldCount = match[from + 1] === undefined ? 1 : parseInt(match[from + 1], 10);
+        const newCount = match[to + 1] === undefined ? 1 : parseInt(match[to + 1], 10);
+        // A pure insertion is reported as starting after `oldStart`.
+        const firstOldLine = oldCount === 0 ? oldStart + 1 : oldStart;
+        if (firstOldLine > lineNumber) {
+            break;
+        }
+        if (oldCount > 0 && lineNumber < oldStart + oldCount) {
+            return undefined;
+        }
+        delta += newCount - oldCount;
+    }
+    return lineNumber + delta;
+}
+
+/**
+ * Moves a comment onto its anchored line. `diff` is `git diff -U0 <hash>` for the file, when
+ * it could be computed. Returns true when the comment changed.
+ */
+export function reanchorComment(comment: Comment, lines: string[], diff: string | undefined): boolean {
+    const { anchor } = comment;
+    if (!anchor) {
+        return false;
+    }
+
+    let lineNumber: number | undefined;
+    if (diff !== undefined && anchor.baseLineNumber !== undefined) {
+        const mapped = mapLineThroughDiff(diff, anchor.baseLineNumber);
+        if (mapped !== undefined && matchesAnchor(lines, mapped, anchor)) {
+            lineNumber = mapped;
+        }
+    }
+    if (lineNumber === undefined && matchesAnchor(lines, comment.lineNumber, anchor)) {
+        lineNumber = comment.lineNumber;
+    }
+    if (lineNumber === undefined) {
+        lineNumber = findAnchoredLine(lines, anchor, comment.lineNumber);
+    }
+
+    const outdated = lineNumber === undefined;
+    const changed = (!outdated && lineNumber !== comment.lineNumber) || outdated !== !!comment.outdated;
+    if (lineNumber !== undefined) {
+        if (comment.endLineNumber !== undefined) {
+            comment.endLineNumber += lineNumber - comment.lineNumber;
+        }
+        comment.lineNumber = lineNumber;
+        delete comment.outdated;
+    } else {
+        comment.outdated = true;
+    }
+    return changed;
+}
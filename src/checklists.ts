@@ -0,0 +1,142 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { CommentManager } from './CommentManager';
+import { ChecklistItem, Review, ReviewChecklist } from './Review';
+import { isObject } from './storage/schema';
+
+// Where a repository defines its review checklists, relative to the workspace folder.
+export const CHECKLISTS_FILE = '.vscode/review-checklists.yaml';
+
+export interface ChecklistDefinition {
+    name: string;
+    items: string[];
+}
+
+const SAMPLE_CHECKLISTS = `# Checklists that can be attached to a review and ticked off in the Reviews view.
+checklists:
+  - name: Standard Review
+    items:
+      - The change does what its description says
+      - New behaviour is covered by tests
+      - Errors are handled and reported
+      - Names are clear and consistent
+`;
+
+const getChecklistsPath = (folder: vscode.WorkspaceFolder): string => path.join(folder.uri.fsPath, ...CHECKLISTS_FILE.split('/'));
+
+/**
+ * Reads the checklists a workspace folder defines; none when it has no checklists file. Throws
+ * when the file can't be parsed, and skips checklists that have no name or items.
+ */
+export async function loadChecklists(folder: vscode.WorkspaceFolder): Promise<ChecklistDefinition[]> {
+    let content: string;
+    try {
+        content = await fs.promises.readFile(getChecklistsPath(folder), 'utf8');
+    } catch {
+        return [];
+    }
+    let parsed: unknown;
+    try {
+        parsed = yaml.load(content);
+    } catch (error) {
+        throw new Error(`${CHECKLISTS_FILE} can't be read: ${(error as Error).message}`);
+    }
+    const checklists = isObject(parsed) && Array.isArray(parsed.checklists) ? parsed.checklists : [];
+    return checklists.filter(isObject).flatMap(checklist => {
+        const items = Array.isArray(checklist.items) ? checklist.items.filter((item): item is string => typeof item === 'string' && !!item.trim()) : [];
+        return typeof checklist.name === 'string' && items.length > 0 ? [{ name: checklist.name, items }] : [];
+    });
+}
+
+export const createChecklist = (definition: ChecklistDefinition): ReviewChecklist => ({
+    name: definition.name,
+    items: definition.items.map(text => ({ text, checked: false }))
+});
+
+// Ticks an item off or unticks it, recording who ticked it off and when.
+export function setItemChecked(item: ChecklistItem, checked: boolean, checkedBy: string, checkedAt: string): void {
+    item.checked = checked;
+    if (checked) {
+        item.checkedBy = checkedBy;
+        item.checkedAt = checkedAt;
+    } else {
+        delete item.checkedBy;
+        delete item.checkedAt;
+    }
+}
+
+/**
+ * Asks which of the folder's checklists to attach to a new review, all of them by default.
+ * Resolves to an empty list when the folder defines none and to undefined when cancelled.
+ */
+export async function pickChecklists(folder: vscode.WorkspaceFolder): Promise<ReviewChecklist[] | undefined> {
+    let definitions: ChecklistDefinition[];
+    try {
+        definitions = await loadChecklists(folder);
+    } catch (error) {
+        vscode.window.showWarningMessage(`${(error as Error).message}. The review starts without a checklist.`);
+        return [];
+    }
+    if (definitions.length === 0) {
+        return [];
+    }
+    const picked = await vscode.window.showQuickPick(
+        definitions.map(definition => ({ label: definition.name, description: `${definition.items.length} items`, picked: true, definition })),
+        { canPickMany: true, placeHolder: 'Checklists to tick off during the review' }
+    );
+    return picked?.map(item => createChecklist(item.definition));
+}
+
+/**
+ * Adds a checklist to a review that doesn't have it yet. Offers to create the checklists file
+ * when the folder has none. Returns true when the review changed.
+ */
+export async function attachChecklist(commentManager: CommentManager, review: Review): Promise<boolean> {
+    const folder = commentManager.getWorkspaceFolder(review.workspaceFolder);
+    if (!folder) {
+        vscode.window.showErrorMessage('The workspace folder of this review is not open.');
+        return false;
+    }
+    let definitions: ChecklistDefinition[];
+    try {
+        definitions = await loadChecklists(folder);
+    } catch (error) {
+        vscode.window.showErrorMessage((error as Error).message);
+        return false;
+    }
+    if (definitions.length === 0) {
+        const choice = await vscode.window.showInformationMessage(`${folder.name} has no checklists in ${CHECKLISTS_FILE}.`, 'Create File');
+        if (choice === 'Create File') {
+            await openChecklistsFile(folder);
+        }
+        return false;
+    }
+    const attached = new Set((review.checklists ?? []).map(checklist => checklist.name));
+    const available = definitions.filter(definition => !attached.has(definition.name));
+    if (available.length === 0) {
+        vscode.window.showInformationMessage('All checklists are already attached to this review.');
+        return false;
+    }
+    const picked = await vscode.window.showQuickPick(
+        available.map(definition => ({ label: definition.name, description: `${definition.items.length} items`, definition })),
+        { placeHolder: 'Checklist to attach to the review' }
+    );
+    if (!picked) {
+        return false;
+    }
+    review.checklists = [...(review.checklists ?? []), createChecklist(picked.definition)];
+    commentManager.updateReview(review);
+    return true;
+}
+
+// Opens the checklists file, creating it with a sample checklist when it doesn't exist.
+export async function openChecklistsFile(folder: vscode.WorkspaceFolder): Promise<void> {
+    const filePath = getChecklistsPath(folder);
+    if (!fs.existsSync(filePath)) {
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.promises.writeFile(filePath, SAMPLE_CHECKLISTS, 'utf8');
+    }
+    await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+}
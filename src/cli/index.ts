@@ -0,0 +1,189 @@
+#!/usr/bin/env node
+import * as path from 'path';
+import { parseArgs } from 'util';
+import { SEVERITIES, Severity, isSeverity } from '../Comment';
+import { COMMENT_STATUSES, CommentQuery, CommentStatus, isCommentStatus, queryComments, sortComments, summarizeComments } from '../comments';
+import { gitService } from '../git/GitService';
+import { CommentStorage } from '../storage/CommentStorage';
+import { DEFAULT_NOTES_REF, GitNotesCommentStorage } from '../storage/GitNotesCommentStorage';
+import { YamlCommentStorage } from '../storage/YamlCommentStorage';
+import { CheckResult, OUTPUT_FORMATS, OutputFormat, formatCheck, formatComments, formatSummary } from './output';
+
+// Queries the review comments of a workspace folder without VS Code, e.g. to gate a CI build on them.
+
+const USAGE = `Usage: code-review-comments <command> [options]
+
+Commands:
+  list      List the comments
+  summary   Count the comments by status and severity
+  check     Fail when there are unresolved blocker comments, or with --range,
+            unresolved comments on the files changed in that range. Entries
+            that fail validation are an error, since they may be blockers
+
+Options:
+  --cwd <dir>            Workspace folder with the comments (default: current directory)
+  --storage <backend>    Where the comments are stored: yaml or gitNotes (default: yaml)
+  --notes-ref <ref>      Notes ref of the gitNotes backend (default: ${DEFAULT_NOTES_REF})
+  --status <status>      Only comments with this status: ${COMMENT_STATUSES.join(', ')}; repeatable
+  --severity <severity>  Only comments with this severity: ${SEVERITIES.join(', ')}; repeatable
+  --file <path>          Only comments on this file or the files in this directory
+  --commit <rev>         Only comments made on this commit
+  --range <base>..<head> Only comments on the files changed in this range of commits
+  --format <format>      Output as text or json (default: text)
+  --strict               Make entries that fail validation an error instead of a
+                         warning (always on for check)
+  -h, --help             Show this help
+
+Exit codes: 0 on success, 1 when check fails, 2 on errors.`;
+
+export const EXIT_FAILED = 1;
+export const EXIT_ERROR = 2;
+
+// Where the tool writes its output, so it can be captured.
+export interface CliOutput {
+    log(message: string): void;
+    error(message: string): void;
+}
+
+class UsageError extends Error { }
+
+// Splits repeated and comma-separated values, e.g. `--status open,outdated --status orphaned`.
+const splitValues = (values: string[] | undefined): string[] | undefined =>
+    values?.flatMap(value => value.split(',')).map(value => value.trim()).filter(Boolean);
+
+function createStorage(cwd: string, backend: string, notesRef: string | undefined): CommentStorage {
+    switch (backend) {
+        case 'yaml':
+            return new YamlCommentStorage(cwd);
+        case 'gitNotes': {
+            const ref = notesRef ?? DEFAULT_NOTES_REF;
+            return new GitNotesCommentStorage(cwd, ref.startsWith('refs/notes/') ? ref : `refs/notes/${ref}`);
+        }
+        default:
+            throw new UsageError(`Unknown storage backend "${backend}"; use yaml or gitNotes.`);
+    }
+}
+
+// The files changed in a range of commits, relative to `cwd`. Renamed files count with both names.
+async function getChangedFiles(cwd: string, range: string): Promise<string[]> {
+    if (range.startsWith('-')) {
+        throw new UsageError(`"${range}" is not a range of commits.`);
+    }
+    const output = await gitService.exec(['diff', '--name-only', '-z', '--relative', '--no-renames', range, '--'], cwd);
+    return output.split('\0').filter(Boolean);
+}
+
+async function main(args: string[], output: CliOutput): Promise<number> {
+    const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+            cwd: { type: 'string' },
+            storage: { type: 'string', default: 'yaml' },
+            'notes-ref': { type: 'string' },
+            status: { type: 'string', multiple: true },
+            severity: { type: 'string', multiple: true },
+            file: { type: 'string' },
+            commit: { type: 'string' },
+            range: { type: 'string' },
+            format: { type: 'string', default: 'text' },
+            strict: { type: 'boolean' },
+            help: { type: 'boolean', short: 'h' }
+        }
+    });
+    const [command] = positionals;
+    if (values.help || !command) {
+        output.log(USAGE);
+        return values.help ? 0 : EXIT_ERROR;
+    }
+    if (!['list', 'summary', 'check'].includes(command) || positionals.length > 1) {
+        throw new UsageError(`Unknown command "${positionals.join(' ')}".`);
+    }
+    const format = values.format as OutputFormat;
+    if (!OUTPUT_FORMATS.includes(format)) {
+        throw new UsageError(`Unknown format "${values.format}"; use text or json.`);
+    }
+    const statuses = splitValues(values.status);
+    if (statuses?.some(status => !isCommentStatus(status))) {
+        throw new UsageError(`Statuses must be one of ${COMMENT_STATUSES.join(', ')}.`);
+    }
+    const severities = splitValues(values.severity);
+    if (severities?.some(severity => !isSeverity(severity))) {
+        throw new UsageError(`Severities must be one of ${SEVERITIES.join(', ')}.`);
+    }
+
+    const cwd = path.resolve(values.cwd ?? process.cwd());
+    const storage = createStorage(cwd, values.storage!, values['notes-ref']);
+    const loaded = await storage.load();
+    // A comment that can't be read might be an unresolved blocker, so a gate can't pass over it.
+    if (loaded.problems.length > 0 && (values.strict || command === 'check')) {
+        loaded.problems.forEach(problem => output.error(`error: ${storage.description}: ${problem}`));
+        output.error(`error: ${storage.description} has ${loaded.problems.length === 1 ? 'an invalid entry' : `${loaded.problems.length} invalid entries`}; fix ${loaded.problems.length === 1 ? 'it' : 'them'} first.`);
+        return EXIT_ERROR;
+    }
+    loaded.problems.forEach(problem => output.error(`warning: ${storage.description}: ${problem}`));
+
+    const query: CommentQuery = {
+        statuses: statuses as CommentStatus[] | undefined,
+        severities: severities as Severity[] | undefined,
+        path: values.file && path.relative(cwd, path.resolve(cwd, values.file)).split(path.sep).join('/')
+    };
+    if (values.commit) {
+        // Full hashes match abbreviated ones too, but refs like HEAD need resolving.
+        query.commit = await gitService.resolveCommit(cwd, values.commit) ?? values.commit;
+    }
+    let changedFiles: string[] | undefined;
+    if (values.range) {
+        changedFiles = await getChangedFiles(cwd, values.range);
+        // `check` reports the comments on the range apart from the blockers.
+        if (command !== 'check') {
+            query.fileNames = new Set(changedFiles);
+        }
+    }
+    const comments = sortComments(queryComments(loaded.comments, query));
+
+    switch (command) {
+        case 'list':
+            output.log(formatComments(comments, format));
+            return 0;
+        case 'summary':
+            output.log(formatSummary(summarizeComments(comments), format));
+            return 0;
+        default: {
+            const unresolved = comments.filter(comment => !comment.completed);
+            const result: CheckResult = {
+                passed: true,
+                blockers: unresolved.filter(comment => comment.severity === 'blocker')
+            };
+            if (values.range && changedFiles) {
+                result.range = {
+                    range: values.range,
+                    changedFiles,
+                    comments: queryComments(unresolved, { fileNames: new Set(changedFiles) })
+                };
+            }
+            result.passed = result.blockers.length === 0 && (result.range?.comments.length ?? 0) === 0;
+            output.log(formatCheck(result, format));
+            return result.passed ? 0 : EXIT_FAILED;
+        }
+    }
+}
+
+// Runs the tool and resolves to its exit code; errors are reported, never thrown.
+export async function run(args: string[], output: CliOutput = console): Promise<number> {
+    try {
+        return await main(args, output);
+    } catch (error) {
+        output.error(`error: ${(error as Error).message}`);
+        if (error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+            output.error('Run with --help for usage.');
+        }
+        return EXIT_ERROR;
+    }
+}
+
+if (require.main === module) {
+    run(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    });
+}
@@ -0,0 +1,77 @@
+import { Comment, getEndLineNumber } from '../Comment';
+import { CommentSummary, getCommentStatus } from '../comments';
+import { shortHash } from '../export/ReviewExporter';
+
+export type OutputFormat = 'text' | 'json';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json'];
+
+export interface CheckResult {
+    passed: boolean;
+    // Comments that aren't completed and have the blocker severity.
+    blockers: Comment[];
+    // Set when a range was given: the files it changes and the unresolved comments on them.
+    range?: { range: string; changedFiles: string[]; comments: Comment[] };
+}
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const lineLabel = (comment: Comment): string => {
+    const end = getEndLineNumber(comment);
+    return end > comment.lineNumber ? `${comment.lineNumber}-${end}` : `${comment.lineNumber}`;
+};
+
+// The comment with its status, so JSON consumers don't have to derive it.
+const toJson = (comment: Comment) => ({ ...comment, status: getCommentStatus(comment) });
+
+function formatCommentLine(comment: Comment): string {
+    const firstLine = comment.content.split(/\r?\n/)[0];
+    const replies = comment.replies?.length ? ` (${comment.replies.length === 1 ? '1 reply' : `${comment.replies.length} replies`})` : '';
+    const details = [getCommentStatus(comment), comment.severity, shortHash(comment.hash), comment.author].filter(Boolean).join(' · ');
+    return `${comment.fileName}:${lineLabel(comment)}  [${details}]  ${firstLine}${replies}`;
+}
+
+export function formatComments(comments: Comment[], format: OutputFormat): string {
+    if (format === 'json') {
+        return JSON.stringify(comments.map(toJson), null, 2);
+    }
+    return comments.length > 0 ? comments.map(formatCommentLine).join('\n') : 'No comments.';
+}
+
+export function formatSummary(summary: CommentSummary, format: OutputFormat): string {
+    if (format === 'json') {
+        return JSON.stringify(summary, null, 2);
+    }
+    const counts = (record: Record<string, number>) =>
+        Object.entries(record).filter(([, count]) => count > 0).map(([key, count]) => `${key} ${count}`).join(', ') || 'none';
+    return [
+        `${plural(summary.total, 'comment')} on ${plural(summary.files, 'file')}`,
+        `  by status: ${counts(summary.byStatus)}`,
+        `  unresolved by severity: ${counts(summary.unresolvedBySeverity)}`
+    ].join('\n');
+}
+
+export function formatCheck(result: CheckResult, format: OutputFormat): string {
+    if (format === 'json') {
+        return JSON.stringify({
+            passed: result.passed,
+            blockers: result.blockers.map(toJson),
+            ...(result.range ? { range: { ...result.range, comments: result.range.comments.map(toJson) } } : {})
+        }, null, 2);
+    }
+    const lines: string[] = [];
+    if (result.blockers.length > 0) {
+        lines.push(`✖ ${plural(result.blockers.length, 'unresolved blocker comment')}:`, ...result.blockers.map(comment => `  ${formatCommentLine(comment)}`));
+    } else {
+        lines.push('✔ No unresolved blocker comments.');
+    }
+    if (result.range) {
+        const { range, changedFiles, comments } = result.range;
+        if (comments.length > 0) {
+            lines.push(`✖ ${plural(comments.length, 'unresolved comment')} on the ${plural(changedFiles.length, 'file')} changed in ${range}:`, ...comments.map(comment => `  ${formatCommentLine(comment)}`));
+        } else {
+            lines.push(`✔ No unresolved comments on the ${plural(changedFiles.length, 'file')} changed in ${range}.`);
+        }
+    }
+    return lines.join('\n');
+}
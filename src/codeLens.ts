@@ -0,0 +1,60 @@
+import * as vscode from 'vscode';
+import { CommentManager } from './CommentManager';
+import { Comment } from './Comment';
+
+// Shows "💬 N comments" above commented lines, with quick actions when a line has one comment.
+export class CommentCodeLensProvider implements vscode.CodeLensProvider, vscode.Disposable {
+    private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+    readonly onDidChangeCodeLenses: vscode.Event<void> = this._onDidChangeCodeLenses.event;
+
+    constructor(private readonly commentManager: CommentManager) { }
+
+    refresh(): void {
+        this._onDidChangeCodeLenses.fire();
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        const showCompleted = vscode.workspace.getConfiguration('code-review-comments').get<boolean>('showCompleted', false);
+        const commentsByLine = new Map<number, Comment[]>();
+        this.commentManager.getCommentsShownIn(document.uri)
+            .filter(({ comment }) => showCompleted || !comment.completed)
+            .forEach(({ comment, lineNumber }) => {
+                commentsByLine.set(lineNumber, [...(commentsByLine.get(lineNumber) ?? []), comment]);
+            });
+
+        const lenses: vscode.CodeLens[] = [];
+        commentsByLine.forEach((comments, lineNumber) => {
+            if (lineNumber > document.lineCount) {
+                return;
+            }
+            const range = new vscode.Range(lineNumber - 1, 0, lineNumber - 1, 0);
+            const open = comments.filter(comment => !comment.completed).length;
+            const openLabel = open < comments.length ? ` (${open} open)` : '';
+            lenses.push(new vscode.CodeLens(range, {
+                title: `💬 ${comments.length} ${comments.length === 1 ? 'comment' : 'comments'}${openLabel}`,
+                tooltip: 'Open the conversation',
+                command: 'code-review-comments.openThread',
+                arguments: comments.map(comment => comment.id)
+            }));
+            // With several comments on a line, their threads have the actions for each of them.
+            if (comments.length === 1) {
+                const [comment] = comments;
+                lenses.push(new vscode.CodeLens(range, {
+                    title: comment.completed ? 'Reopen' : 'Resolve',
+                    command: 'code-review-comments.toggleCompleted',
+                    arguments: [comment.id]
+                }));
+                lenses.push(new vscode.CodeLens(range, {
+                    title: 'Edit',
+                    command: 'code-review-comments.editComment',
+                    arguments: [comment.id]
+                }));
+            }
+        });
+        return lenses;
+    }
+
+    dispose(): void {
+        this._onDidChangeCodeLenses.dispose();
+    }
+}
@@ -0,0 +1,39 @@
+import * as vscode from 'vscode';
+import { CommentPosition, getEndLineNumber } from './Comment';
+
+export const isRangeComment = (comment: CommentPosition): boolean =>
+    getEndLineNumber(comment) > comment.lineNumber || comment.startColumn !== undefined;
+
+/**
+ * The range a comment covers, optionally starting at another line (e.g. its line on the
+ * commented revision). Single-line comments without columns cover the whole line.
+ */
+export function getCommentRange(comment: CommentPosition, startLineNumber: number = comment.lineNumber): vscode.Range {
+    const endLineNumber = startLineNumber + getEndLineNumber(comment) - comment.lineNumber;
+    if (comment.startColumn !== undefined && comment.endColumn !== undefined) {
+        return new vscode.Range(startLineNumber - 1, comment.startColumn - 1, endLineNumber - 1, comment.endColumn - 1);
+    }
+    return new vscode.Range(startLineNumber - 1, 0, endLineNumber - 1, Number.MAX_SAFE_INTEGER);
+}
+
+/**
+ * Converts an editor selection into the 1-based line and column fields stored on a comment.
+ * Empty selections and whole-line selections are stored without columns.
+ */
+export function selectionToCommentRange(selection: vscode.Selection): CommentPosition {
+    if (selection.isEmpty) {
+        return { lineNumber: selection.active.line + 1 };
+    }
+    const hasColumns = selection.start.character !== 0 || selection.end.character !== 0;
+    // A selection of whole lines ends at the start of the next line.
+    const endLine = hasColumns ? selection.end.line : selection.end.line - 1;
+    const range: CommentPosition = { lineNumber: selection.start.line + 1 };
+    if (endLine > selection.start.line) {
+        range.endLineNumber = endLine + 1;
+    }
+    if (hasColumns) {
+        range.startColumn = selection.start.character + 1;
+        range.endColumn = selection.end.character + 1;
+    }
+    return range;
+}
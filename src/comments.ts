@@ -0,0 +1,145 @@
+import { Comment, SEVERITIES, Severity } from './Comment';
+import { Review } from './Review';
+
+// Queries over comments that don't need VS Code, shared by the extension and the command line tool.
+
+export const COMMENT_STATUSES = ['open', 'outdated', 'orphaned', 'completed'] as const;
+
+export type CommentStatus = typeof COMMENT_STATUSES[number];
+
+export const isCommentStatus = (value: unknown): value is CommentStatus => COMMENT_STATUSES.includes(value as CommentStatus);
+
+export const STATUS_LABELS: Record<CommentStatus, string> = {
+    open: 'Open',
+    outdated: 'Outdated',
+    orphaned: 'Orphaned',
+    completed: 'Completed'
+};
+
+export function getCommentStatus(comment: Comment): CommentStatus {
+    if (comment.completed) {
+        return 'completed';
+    }
+    if (comment.orphaned) {
+        return 'orphaned';
+    }
+    return comment.outdated ? 'outdated' : 'open';
+}
+
+// Open comments first, then newest first.
+export function sortComments(comments: Comment[]): Comment[] {
+    return [...comments].sort((a, b) => {
+        if (a.completed === b.completed) {
+            return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+        }
+        return a.completed ? 1 : -1;
+    });
+}
+
+// Newest first.
+export const sortReviews = (reviews: Review[]): Review[] =>
+    [...reviews].sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+/**
+ * Whether a comment is on a file, given by its path relative to the workspace folder. With a
+ * `revision`, comments made on that revision go by the path the file had there.
+ */
+export function isCommentOnFile(comment: Comment, fileName: string, revision?: string): boolean {
+    if (revision !== undefined && comment.hash === revision) {
+        return (comment.originalFileName ?? comment.fileName) === fileName;
+    }
+    return comment.fileName === fileName && !comment.orphaned;
+}
+
+export interface AuthorIdentity {
+    name: string;
+    email?: string;
+}
+
+// `@name` not preceded by a word character, so the host of an email address isn't a mention.
+const MENTION_PATTERN = /(?<![\w.@])@([\w][\w.+-]*)/g;
+
+// The people mentioned in a text, without the `@` and in order of first mention.
+export function parseMentions(text: string): string[] {
+    const mentions = [...text.matchAll(MENTION_PATTERN)].map(match => match[1].replace(/[.-]+$/, ''));
+    return [...new Set(mentions)];
+}
+
+// The comment's assignees: the people its text mentions.
+export const getAssignees = (comment: Comment): string[] => parseMentions(comment.content);
+
+// What to type after `@` to mention someone: their email's local part, or their name without spaces.
+export const mentionHandle = (identity: AuthorIdentity): string =>
+    identity.email?.split('@')[0] || identity.name.replace(/\s+/g, '');
+
+export function isMentioned(comment: Comment, identity: AuthorIdentity): boolean {
+    const handles = new Set([mentionHandle(identity), identity.email ?? '', identity.name.replace(/\s+/g, '')]
+        .filter(Boolean).map(handle => handle.toLowerCase()));
+    return getAssignees(comment).some(assignee => handles.has(assignee.toLowerCase()));
+}
+
+// Comments stamped with an email go by it; older ones only have a name.
+export function isAuthoredBy(comment: Comment, identity: AuthorIdentity): boolean {
+    if (comment.authorEmail && identity.email) {
+        return comment.authorEmail.toLowerCase() === identity.email.toLowerCase();
+    }
+    return comment.author === identity.name;
+}
+
+// Completes or reopens a comment, recording who completed it and when.
+export function setCompleted(comment: Comment, completed: boolean, resolvedBy: string, resolvedAt: string): void {
+    comment.completed = completed;
+    if (completed) {
+        comment.resolvedBy = resolvedBy;
+        comment.resolvedAt = resolvedAt;
+    } else {
+        delete comment.resolvedBy;
+        delete comment.resolvedAt;
+    }
+}
+
+export interface CommentQuery {
+    statuses?: CommentStatus[];
+    severities?: Severity[];
+    // A file or directory, relative to the workspace folder.
+    path?: string;
+    // A full commit hash or a prefix of one.
+    commit?: string;
+    // Only comments on these files, e.g. the files changed in a range of commits.
+    fileNames?: Set<string>;
+}
+
+export function queryComments(comments: Comment[], query: CommentQuery): Comment[] {
+    const path = query.path?.replace(/^\.\//, '').replace(/\/+$/, '');
+    return comments.filter(comment =>
+        (!query.statuses || query.statuses.includes(getCommentStatus(comment)))
+        && (!query.severities || (!!comment.severity && query.severities.includes(comment.severity)))
+        && (!path || comment.fileName === path || comment.fileName.startsWith(`${path}/`))
+        && (!query.commit || comment.hash.startsWith(query.commit))
+        && (!query.fileNames || query.fileNames.has(comment.fileName) || (!!comment.originalFileName && query.fileNames.has(comment.originalFileName)))
+    );
+}
+
+export interface CommentSummary {
+    total: number;
+    byStatus: Record<CommentStatus, number>;
+    // Comments that aren't completed, by severity; `none` counts the ones without a severity.
+    unresolvedBySeverity: Record<Severity | 'none', number>;
+    files: number;
+}
+
+export function summarizeComments(comments: Comment[]): CommentSummary {
+    const summary: CommentSummary = {
+        total: comments.length,
+        byStatus: { open: 0, outdated: 0, orphaned: 0, completed: 0 },
+        unresolvedBySeverity: { ...Object.fromEntries(SEVERITIES.map(severity => [severity, 0])) as Record<Severity, number>, none: 0 },
+        files: new Set(comments.map(comment => `${comment.workspaceFolder ?? ''}/${comment.fileName}`)).size
+    };
+    comments.forEach(comment => {
+        summary.byStatus[getCommentStatus(comment)]++;
+        if (!comment.completed) {
+            summary.unresolvedBySeverity[comment.severity ?? 'none']++;
+        }
+    });
+    return summary;
+}
@@ -1,74 +1,135 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
 import { CommentManager } from './CommentManager';
-import { Comment } from './Comment';
+import { Comment, SEVERITIES, Severity } from './Comment';
 import { DiffContentProvider } from './DiffContentProvider';
+import { parseGitUri } from './git/gitUri';
+import { getCommentRange, isRangeComment } from './commentRange';
+import { describeClassification, getGutterIconPath } from './severity';
+import { getAssignees } from './comments';
+
+const HOVER_COMMANDS = ['editComment', 'toggleCompleted', 'deleteComment', 'showDiff'].map(command => `code-review-comments.${command}`);
+
+const shortHash = (hash: string): string => hash && hash.length >= 7 ? hash.substring(0, 7) : (hash || 'n/a');
+
+// Status, author, time and revisions of a comment above its text, with links that act on it.
+function createHover(comment: Comment): vscode.MarkdownString {
+    const status = comment.completed ? '$(check) Completed' : comment.outdated ? '$(history) Outdated' : '$(comment) Open';
+    const header = [
+        `**${status}**`,
+        describeClassification(comment),
+        comment.author,
+        new Date(comment.createdAt).toLocaleString(),
+        `\`${shortHash(comment.parentHash)}..${shortHash(comment.hash)}\``
+    ].filter(Boolean).join(' · ');
+    const outdatedNote = [
+        comment.commitMissing ? `_Commit \`${shortHash(comment.hash)}\` is no longer in the repository; Show Diff compares the snapshot of the commented code._` : '',
+        comment.outdated ? '_The code this comment was made on has changed._' : ''
+    ].filter(Boolean).join(' ');
+    const assignees = getAssignees(comment);
+    const assigneesNote = assignees.length > 0 ? `$(person) Assigned to ${assignees.map(assignee => `@${assignee}`).join(', ')}` : '';
+    const resolvedNote = comment.completed && comment.resolvedBy
+        ? `_Resolved by ${comment.resolvedBy}${comment.resolvedAt ? ` on ${new Date(comment.resolvedAt).toLocaleString()}` : ''}_`
+        : '';
+    const replyCount = comment.replies?.length ?? 0;
+    const repliesNote = replyCount > 0 ? `_${replyCount} ${replyCount === 1 ? 'reply' : 'replies'}_` : '';
+    const link = (title: string, command: string) =>
+        `[${title}](command:code-review-comments.${command}?${encodeURIComponent(JSON.stringify([comment.id]))})`;
+    const actions = [
+        link('Edit', 'editComment'),
+        link(comment.completed ? 'Reopen' : 'Resolve', 'toggleCompleted'),
+        link('Delete', 'deleteComment'),
+        link('Show Diff', 'showDiff')
+    ].join(' · ');
+
+    const hover = new vscode.MarkdownString([header, outdatedNote, comment.content, assigneesNote, resolvedNote, repliesNote, actions].filter(Boolean).join('\n\n'));
+    hover.supportThemeIcons = true;
+    // Only the links above may run commands, whatever the comment text contains.
+    hover.isTrusted = { enabledCommands: HOVER_COMMANDS };
+    return hover;
+}
 
 export function setupDecorations(context: vscode.ExtensionContext, commentManager: CommentManager) {
     const decorationType = vscode.window.createTextEditorDecorationType({
         gutterIconPath: context.asAbsolutePath('resources/comment.svg'),
         gutterIconSize: 'contain'
     });
+    const outdatedDecorationType = vscode.window.createTextEditorDecorationType({
+        gutterIconPath: context.asAbsolutePath('resources/comment-outdated.svg'),
+        gutterIconSize: 'contain'
+    });
+    const severityDecorationTypes = new Map<Severity, vscode.TextEditorDecorationType>(SEVERITIES.map(severity => [
+        severity,
+        vscode.window.createTextEditorDecorationType({
+            gutterIconPath: context.asAbsolutePath(getGutterIconPath(severity)),
+            gutterIconSize: 'contain'
+        })
+    ]));
+    const rangeDecorationType = vscode.window.createTextEditorDecorationType({
+        backgroundColor: new vscode.ThemeColor('editor.rangeHighlightBackground')
+    });
 
     const updateDecorations = (editor: vscode.TextEditor) => {
+        const showCompleted = vscode.workspace.getConfiguration('code-review-comments').get<boolean>('showCompleted', false);
         let commentsToDecorate: Comment[] = [];
-        let targetFileName: string;
         let editorCommitHash: string | undefined;
+        // Set for excerpts, which only show the one comment they were opened for.
+        let excerptLineNumber: number | undefined;
 
         if (editor.document.uri.scheme === DiffContentProvider.scheme) {
-            // Our custom diff editor (right side)
-            targetFileName = editor.document.uri.path;
-            commentsToDecorate = commentManager.getComments().filter(c =>
-                path.join(vscode.workspace.workspaceFolders![0].uri.fsPath, c.fileName) === targetFileName && !c.completed
-            );
+            // Our custom diff editor, whose path is the file's path on disk
+            const { id, kind } = DiffContentProvider.parseQuery(editor.document.uri);
+            const comment = id ? commentManager.getComment(id) : undefined;
+            if (comment && (kind === 'snapshot' || kind === 'current')) {
+                commentsToDecorate = [comment];
+                excerptLineNumber = DiffContentProvider.getExcerptLineNumber(comment, kind);
+                // A snapshot is the commented revision, where the comment is never outdated.
+                editorCommitHash = kind === 'snapshot' ? comment.hash : undefined;
+            } else {
+                commentsToDecorate = commentManager.getCommentsForUri(vscode.Uri.file(editor.document.uri.path)).filter(c => showCompleted || !c.completed);
+            }
         } else if (editor.document.uri.scheme === 'git') {
             // VS Code's native Git diff view (left or right side)
-            const uri = editor.document.uri;
-            let queryParams: any;
-            try {
-                queryParams = JSON.parse(uri.query);
-            } catch (e) {
-                console.error('Failed to parse Git URI query in updateDecorations:', e);
+            const query = parseGitUri(editor.document.uri);
+            if (!query) {
+                console.error('Failed to parse Git URI query in updateDecorations.');
                 return; // Exit early if URI is malformed
             }
-
-            editorCommitHash = queryParams.ref;
-            const absoluteFilePathFromQuery = queryParams.path; // This is the absolute path from the query
-            if (!absoluteFilePathFromQuery) {
-                console.error('Git URI query missing path parameter in updateDecorations.');
-                return; // Exit early if path is missing
-            }
-            targetFileName = vscode.workspace.asRelativePath(absoluteFilePathFromQuery);
+            editorCommitHash = query.ref;
 
             // Only decorate if the editor's commit hash matches the comment's hash (right side of diff)
-            commentsToDecorate = commentManager.getComments().filter(c =>
-                c.fileName === targetFileName && c.hash === editorCommitHash && !c.completed
+            commentsToDecorate = commentManager.getCommentsForUri(vscode.Uri.file(query.path), query.ref).filter(c =>
+                c.hash === editorCommitHash && (showCompleted || !c.completed)
             );
         } else if (editor.document.uri.scheme === 'file') {
-            // Regular file editor
-            const workspaceFolder = vscode.workspace.getWorkspaceFolder(editor.document.uri);
-            if (workspaceFolder) {
-                targetFileName = path.relative(workspaceFolder.uri.fsPath, editor.document.fileName);
-                commentsToDecorate = commentManager.getComments().filter(c =>
-                    c.fileName === targetFileName && !c.completed
-                );
-            } else {
-                // If no workspace folder, we can't reliably get a relative path to match stored comments
-                commentsToDecorate = [];
-            }
+            // Regular file editor; files outside the workspace folders have no comments
+            commentsToDecorate = commentManager.getCommentsForUri(editor.document.uri).filter(c => showCompleted || !c.completed);
         } else {
             // Any other scheme (e.g., 'untitled'), no decorations
             commentsToDecorate = [];
         }
 
-        const decorations: vscode.DecorationOptions[] = commentsToDecorate.map(comment => {
-            const position = new vscode.Position(comment.lineNumber - 1, 0);
+        // On the commented revision itself the line the comment was made on is still valid.
+        const startLineNumberOf = (comment: Comment) => excerptLineNumber
+            ?? (editorCommitHash && comment.anchor?.baseLineNumber ? comment.anchor.baseLineNumber : comment.lineNumber);
+        const toDecoration = (comment: Comment): vscode.DecorationOptions => {
+            const lineNumber = startLineNumberOf(comment);
+            const position = new vscode.Position(lineNumber - 1, 0);
             return {
                 range: new vscode.Range(position, position),
-                hoverMessage: new vscode.MarkdownString(comment.content)
+                hoverMessage: createHover(comment)
             };
+        };
+        // Outdated comments only stay valid on the revision they were made on; completed ones are shown faded too.
+        const isFaded = (comment: Comment) => (comment.outdated && !editorCommitHash) || comment.completed;
+        const current = commentsToDecorate.filter(c => !isFaded(c));
+        editor.setDecorations(decorationType, current.filter(c => !c.severity).map(toDecoration));
+        severityDecorationTypes.forEach((type, severity) => {
+            editor.setDecorations(type, current.filter(c => c.severity === severity).map(toDecoration));
         });
-        editor.setDecorations(decorationType, decorations);
+        editor.setDecorations(outdatedDecorationType, commentsToDecorate.filter(isFaded).map(toDecoration));
+        editor.setDecorations(rangeDecorationType, commentsToDecorate
+            .filter(c => !isFaded(c) && isRangeComment(c))
+            .map(c => ({ range: getCommentRange(c, startLineNumberOf(c)) })));
     };
 
     return updateDecorations;
@@ -0,0 +1,74 @@
+import * as vscode from 'vscode';
+import { Comment } from './Comment';
+import { CommentManager } from './CommentManager';
+import { getCommentRange } from './commentRange';
+import { SEVERITY_INFO } from './severity';
+
+const DIAGNOSTIC_SOURCE = 'Code Review';
+
+// Publishes open comments to the Problems panel, with quick fixes to resolve them or open their diff.
+export class CommentDiagnostics implements vscode.CodeActionProvider, vscode.Disposable {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private readonly collection = vscode.languages.createDiagnosticCollection('code-review-comments');
+
+    constructor(private readonly commentManager: CommentManager) { }
+
+    refresh(comments: Comment[]): void {
+        const diagnosticsByUri = new Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>();
+        // Outdated comments no longer point at the right lines, and orphaned ones have no file.
+        comments.filter(comment => !comment.completed && !comment.outdated && !comment.orphaned).forEach(comment => {
+            const uri = this.commentManager.getCommentUri(comment);
+            if (!uri) {
+                return;
+            }
+            const diagnostic = new vscode.Diagnostic(
+                getCommentRange(comment),
+                comment.content,
+                comment.severity ? SEVERITY_INFO[comment.severity].diagnosticSeverity : vscode.DiagnosticSeverity.Information
+            );
+            diagnostic.source = DIAGNOSTIC_SOURCE;
+            diagnostic.code = comment.severity ?? 'comment';
+            const entry = diagnosticsByUri.get(uri.toString()) ?? { uri, diagnostics: [] };
+            entry.diagnostics.push(diagnostic);
+            diagnosticsByUri.set(uri.toString(), entry);
+        });
+
+        this.collection.clear();
+        diagnosticsByUri.forEach(({ uri, diagnostics }) => this.collection.set(uri, diagnostics));
+    }
+
+    provideCodeActions(document: vscode.TextDocument, _range: vscode.Range, context: vscode.CodeActionContext): vscode.CodeAction[] {
+        const comments = this.commentManager.getCommentsForUri(document.uri);
+        return context.diagnostics
+            .filter(diagnostic => diagnostic.source === DIAGNOSTIC_SOURCE)
+            .flatMap(diagnostic => {
+                // Diagnostics come back as copies, so find their comment by position and text.
+                const comment = comments.find(c =>
+                    !c.completed && c.content === diagnostic.message && getCommentRange(c).start.line === diagnostic.range.start.line
+                );
+                if (!comment) {
+                    return [];
+                }
+                const resolve = new vscode.CodeAction('Resolve review comment', vscode.CodeActionKind.QuickFix);
+                resolve.diagnostics = [diagnostic];
+                resolve.command = { command: 'code-review-comments.toggleCompleted', title: 'Resolve review comment', arguments: [comment] };
+
+                const showDiff = new vscode.CodeAction('Show review comment in diff', vscode.CodeActionKind.QuickFix);
+                showDiff.diagnostics = [diagnostic];
+                showDiff.command = { command: 'code-review-comments.showDiff', title: 'Show review comment in diff', arguments: [comment] };
+                if (!comment.suggestion) {
+                    return [resolve, showDiff];
+                }
+                const apply = new vscode.CodeAction('Apply suggested change', vscode.CodeActionKind.QuickFix);
+                apply.diagnostics = [diagnostic];
+                apply.isPreferred = true;
+                apply.command = { command: 'code-review-comments.applySuggestion', title: 'Apply suggested change', arguments: [comment] };
+                return [apply, resolve, showDiff];
+            });
+    }
+
+    dispose(): void {
+        this.collection.dispose();
+    }
+}
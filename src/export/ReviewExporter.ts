@@ -0,0 +1,45 @@
+import { Comment } from '../Comment';
+
+export interface ExportContext {
+    // Path of the commented file relative to the root of its Git repository.
+    getRepositoryPath(comment: Comment): string;
+    // The commented lines as they are in the working tree, if the file still exists.
+    getExcerpt(comment: Comment): string[] | undefined;
+    // Commit the exported lines refer to, e.g. the head of the exported range.
+    headCommit: string | undefined;
+    range: { base: string; head: string } | undefined;
+    // The commented lines in `headCommit`, when they are there as they are in the working tree.
+    getCommittedRange(comment: Comment): CommittedRange | undefined;
+}
+
+export interface CommittedRange {
+    lineNumber: number;
+    endLineNumber: number;
+}
+
+export interface ReviewExporter {
+    id: string;
+    label: string;
+    description: string;
+    fileExtension: string;
+    // Comments whose lines aren't in `headCommit` as they are in the working tree are left out.
+    requiresCommittedLines?: boolean;
+    export(comments: Comment[], context: ExportContext): string;
+}
+
+export type StatusFilter = 'all' | 'open' | 'completed';
+
+export interface ExportFilter {
+    status: StatusFilter;
+    // Hashes of the commits in the exported range; undefined exports comments on any commit.
+    commits?: Set<string>;
+}
+
+export function filterComments(comments: Comment[], filter: ExportFilter): Comment[] {
+    return comments.filter(comment =>
+        (filter.status === 'all' || (filter.status === 'completed') === comment.completed)
+        && (!filter.commits || filter.commits.has(comment.hash))
+    );
+}
+
+export const shortHash = (hash: string): string => hash && hash.length >= 7 ? hash.substring(0, 7) : (hash || 'n/a');
@@ -0,0 +1,174 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { Comment, getEndLineNumber } from '../Comment';
+import { CommentManager } from '../CommentManager';
+import { mapLineThroughDiff } from '../anchoring';
+import { gitService } from '../git/GitService';
+import { CommittedRange, ExportContext, ExportFilter, ReviewExporter, StatusFilter, exporters, filterComments } from './index';
+
+// Refs may contain dots, but must not look like command line options.
+const RANGE_PATTERN = /^([^\s-]\S*?)\.\.([^\s-]\S*)$/;
+
+async function pickExporter(): Promise<ReviewExporter | undefined> {
+    const picked = await vscode.window.showQuickPick(
+        exporters.map(exporter => ({ label: exporter.label, description: exporter.description, exporter })),
+        { placeHolder: 'Export format' }
+    );
+    return picked?.exporter;
+}
+
+async function pickStatus(): Promise<StatusFilter | undefined> {
+    const picked = await vscode.window.showQuickPick([
+        { label: 'All comments', status: 'all' as StatusFilter },
+        { label: 'Open comments', status: 'open' as StatusFilter },
+        { label: 'Completed comments', status: 'completed' as StatusFilter }
+    ], { placeHolder: 'Which comments should be exported?' });
+    return picked?.status;
+}
+
+async function pickRange(): Promise<{ base: string; head: string } | null | undefined> {
+    const input = await vscode.window.showInputBox({
+        prompt: 'Only export comments on commits in a range (e.g. main..HEAD). Leave empty to export comments on any commit.',
+        placeHolder: 'base..head',
+        validateInput: value => !value.trim() || RANGE_PATTERN.test(value.trim()) ? undefined : 'Use the form base..head'
+    });
+    if (input === undefined) {
+        return undefined;
+    }
+    if (!input.trim()) {
+        return null;
+    }
+    const [, base, head] = RANGE_PATTERN.exec(input.trim())!;
+    return { base, head };
+}
+
+/**
+ * Maps the commented lines in the working tree onto `commit` with `git diff`, once per file.
+ * Undefined when the file isn't in the commit or the commented lines have uncommitted changes.
+ */
+async function getCommittedRanges(commentManager: CommentManager, comments: Comment[], commit: string, getRepositoryPath: (comment: Comment) => string): Promise<Map<string, CommittedRange>> {
+    const ranges = new Map<string, CommittedRange>();
+    const diffs = new Map<string, string | undefined>();
+    for (const comment of comments.filter(c => !c.orphaned && !c.outdated)) {
+        const folder = commentManager.getWorkspaceFolder(comment.workspaceFolder);
+        if (!folder) {
+            continue;
+        }
+        const key = `${folder.name}/${comment.fileName}`;
+        if (!diffs.has(key)) {
+            const cwd = folder.uri.fsPath;
+            const inCommit = await gitService.tryExec(['cat-file', '-e', `${commit}:${getRepositoryPath(comment)}`], cwd) !== undefined;
+            diffs.set(key, inCommit ? await gitService.tryExec(['diff', '-U0', '--no-color', '--no-ext-diff', commit, '--', comment.fileName], cwd) : undefined);
+        }
+        const diff = diffs.get(key);
+        if (diff === undefined) {
+            continue;
+        }
+        const endLineNumber = getEndLineNumber(comment);
+        const committedStart = mapLineThroughDiff(diff, comment.lineNumber, true);
+        const committedEnd = mapLineThroughDiff(diff, endLineNumber, true);
+        // Lines changed in between would place the comment on other code.
+        if (committedStart !== undefined && committedEnd !== undefined && committedEnd - committedStart === endLineNumber - comment.lineNumber) {
+            ranges.set(comment.id, { lineNumber: committedStart, endLineNumber: committedEnd });
+        }
+    }
+    return ranges;
+}
+
+export async function exportReview(commentManager: CommentManager): Promise<void> {
+    const folders = commentManager.getWorkspaceFolders();
+    if (folders.length === 0) {
+        vscode.window.showErrorMessage('No workspace folder open.');
+        return;
+    }
+
+    const exporter = await pickExporter();
+    if (!exporter) {
+        return;
+    }
+    const status = await pickStatus();
+    if (!status) {
+        return;
+    }
+    const range = await pickRange();
+    if (range === undefined) {
+        return;
+    }
+
+    const filter: ExportFilter = { status };
+    let headCommit: string | undefined;
+    const repositoryPrefixes = new Map<string, string>();
+    for (const folder of folders) {
+        const cwd = folder.uri.fsPath;
+        try {
+            repositoryPrefixes.set(folder.name, (await gitService.exec(['rev-parse', '--show-prefix'], cwd)).trim());
+            if (range) {
+                const commits = (await gitService.exec(['rev-list', `${range.base}..${range.head}`, '--'], cwd)).split('\n').filter(Boolean);
+                filter.commits = new Set([...(filter.commits ?? []), ...commits]);
+            }
+            headCommit = headCommit ?? (await gitService.exec(['rev-parse', '--verify', range ? `${range.head}^{commit}` : 'HEAD'], cwd)).trim();
+        } catch (error) {
+            // Folders that aren't Git repositories, or don't know the range, contribute no commits.
+            console.error(`Error reading Git information for ${folder.name}:`, error);
+        }
+    }
+    if (range && !filter.commits) {
+        vscode.window.showErrorMessage(`Could not resolve the commit range ${range.base}..${range.head}.`);
+        return;
+    }
+
+    let comments = filterComments(commentManager.getComments(), filter);
+    if (comments.length === 0) {
+        vscode.window.showInformationMessage('No comments match the export filters.');
+        return;
+    }
+
+    const getRepositoryPath = (comment: Comment) => `${repositoryPrefixes.get(comment.workspaceFolder ?? '') ?? ''}${comment.fileName}`;
+    const committedRanges = headCommit ? await getCommittedRanges(commentManager, comments, headCommit, getRepositoryPath) : new Map<string, CommittedRange>();
+    let uncommitted = 0;
+    if (exporter.requiresCommittedLines) {
+        uncommitted = comments.filter(comment => !committedRanges.has(comment.id)).length;
+        comments = comments.filter(comment => committedRanges.has(comment.id));
+        if (comments.length === 0) {
+            vscode.window.showErrorMessage(`None of the comments can be exported as ${exporter.label}: their lines are not in ${headCommit ? headCommit.substring(0, 7) : 'a commit'} as they are in the working tree. Commit or stash the changes and export again.`);
+            return;
+        }
+    }
+
+    const context: ExportContext = {
+        getRepositoryPath,
+        getExcerpt: (comment: Comment) => {
+            const uri = commentManager.getCommentUri(comment);
+            if (!uri || !fs.existsSync(uri.fsPath)) {
+                return undefined;
+            }
+            const lines = fs.readFileSync(uri.fsPath, 'utf8').split(/\r?\n/);
+            return lines.slice(comment.lineNumber - 1, getEndLineNumber(comment));
+        },
+        headCommit,
+        range: range ?? undefined,
+        getCommittedRange: (comment: Comment) => committedRanges.get(comment.id)
+    };
+
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.joinPath(folders[0].uri, `code-review.${exporter.fileExtension}`),
+        filters: { [exporter.label]: [exporter.fileExtension] }
+    });
+    if (!target) {
+        return;
+    }
+
+    try {
+        fs.writeFileSync(target.fsPath, exporter.export(comments, context));
+    } catch (error) {
+        console.error('Error exporting review:', error);
+        vscode.window.showErrorMessage(`Failed to export review to ${target.fsPath}.`);
+        return;
+    }
+
+    const leftOut = uncommitted > 0 ? ` Left out ${uncommitted} comments whose lines have uncommitted changes or are not in ${headCommit?.substring(0, 7)}.` : '';
+    const open = await vscode.window.showInformationMessage(`Exported ${comments.length} comments to ${vscode.workspace.asRelativePath(target)}.${leftOut}`, 'Open');
+    if (open === 'Open') {
+        await vscode.window.showTextDocument(target);
+    }
+}
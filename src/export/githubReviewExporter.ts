@@ -0,0 +1,41 @@
+import { Comment } from '../Comment';
+import { ExportContext, ReviewExporter } from './ReviewExporter';
+
+function toReviewComment(comment: Comment, context: ExportContext) {
+    // GitHub places comments on the lines of `commit_id`, not on the working tree's.
+    const { lineNumber, endLineNumber } = context.getCommittedRange(comment)!;
+    const replies = (comment.replies ?? []).map(reply => `**${reply.author}**: ${reply.body}`);
+    return {
+        path: context.getRepositoryPath(comment),
+        // GitHub anchors multi-line comments on their last line.
+        line: endLineNumber,
+        side: 'RIGHT',
+        ...(endLineNumber > lineNumber ? { start_line: lineNumber, start_side: 'RIGHT' } : {}),
+        body: [
+            comment.severity ? `**[${comment.severity}]** ${comment.content}` : comment.content,
+            // GitHub renders these as a suggested change the author can commit.
+            ...(comment.suggestion ? [`\`\`\`suggestion\n${comment.suggestion.replacement}\n\`\`\``] : []),
+            ...replies
+        ].join('\n\n')
+    };
+}
+
+// The request body of `POST /repos/{owner}/{repo}/pulls/{pull_number}/reviews`.
+export const githubReviewExporter: ReviewExporter = {
+    id: 'github-review',
+    label: 'GitHub Pull Request Review',
+    description: 'JSON body for the GitHub "create a review" endpoint',
+    fileExtension: 'json',
+    requiresCommittedLines: true,
+    export(comments, context) {
+        const review = {
+            ...(context.headCommit ? { commit_id: context.headCommit } : {}),
+            body: `Code review with ${comments.length} comments.`,
+            event: 'COMMENT',
+            comments: comments
+                .filter(comment => !comment.outdated)
+                .map(comment => toReviewComment(comment, context))
+        };
+        return `${JSON.stringify(review, null, 2)}\n`;
+    }
+};
@@ -0,0 +1,13 @@
+import { ReviewExporter } from './ReviewExporter';
+import { markdownExporter } from './markdownExporter';
+import { sarifExporter } from './sarifExporter';
+import { githubReviewExporter } from './githubReviewExporter';
+
+export * from './ReviewExporter';
+
+// New formats only need to implement ReviewExporter and be listed here.
+export const exporters: ReviewExporter[] = [
+    markdownExporter,
+    sarifExporter,
+    githubReviewExporter
+];
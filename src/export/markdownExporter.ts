@@ -0,0 +1,86 @@
+import * as path from 'path';
+import { Comment, getEndLineNumber } from '../Comment';
+import { ExportContext, ReviewExporter, shortHash } from './ReviewExporter';
+
+const lineLabel = (comment: Comment): string => {
+    const endLineNumber = getEndLineNumber(comment);
+    return endLineNumber > comment.lineNumber ? `Lines ${comment.lineNumber}–${endLineNumber}` : `Line ${comment.lineNumber}`;
+};
+
+// Longer fences than any backtick run in the code keep the excerpt intact.
+const fence = (lines: string[]): string => {
+    const longestRun = Math.max(0, ...lines.map(line => Math.max(0, ...(line.match(/`+/g) ?? []).map(run => run.length))));
+    return '`'.repeat(Math.max(3, longestRun + 1));
+};
+
+const quote = (text: string): string => text.split(/\r?\n/).map(line => `> ${line}`).join('\n');
+
+function renderComment(comment: Comment, context: ExportContext): string {
+    const parts: string[] = [];
+    const status = comment.completed ? '✅ Resolved' : comment.outdated ? '🕓 Outdated' : '💬 Open';
+    const severity = comment.severity ? ` · **${comment.severity}**` : '';
+    parts.push(`### ${lineLabel(comment)} · ${status}${severity} · \`${shortHash(comment.parentHash)}..${shortHash(comment.hash)}\``);
+    parts.push(quote(comment.content));
+
+    const excerpt = comment.outdated ? undefined : context.getExcerpt(comment);
+    if (excerpt && excerpt.length > 0) {
+        const marker = fence(excerpt);
+        const language = path.extname(comment.fileName).substring(1);
+        parts.push(`${marker}${language}\n${excerpt.join('\n')}\n${marker}`);
+    }
+
+    if (comment.suggestion) {
+        const lines = comment.suggestion.replacement.split('\n');
+        const marker = fence(lines);
+        parts.push(`Suggested change:\n\n${marker}suggestion\n${lines.join('\n')}\n${marker}`);
+    }
+
+    (comment.replies ?? []).forEach(reply => {
+        parts.push(`- **${reply.author}** (${new Date(reply.createdAt).toLocaleString()}): ${reply.body.replace(/\r?\n/g, ' ')}`);
+    });
+
+    const meta = [`Created ${new Date(comment.createdAt).toLocaleString()}`];
+    if (comment.category) {
+        meta.push(comment.category);
+    }
+    if (comment.tags?.length) {
+        meta.push(comment.tags.map(tag => `#${tag}`).join(' '));
+    }
+    if (comment.author) {
+        meta.unshift(`by ${comment.author}`);
+    }
+    if (comment.completed && comment.resolvedBy) {
+        meta.push(`resolved by ${comment.resolvedBy}`);
+    }
+    parts.push(`<sub>${meta.join(' · ')}</sub>`);
+    return parts.join('\n\n');
+}
+
+export const markdownExporter: ReviewExporter = {
+    id: 'markdown',
+    label: 'Markdown',
+    description: 'A report grouped by file, with code excerpts',
+    fileExtension: 'md',
+    export(comments, context) {
+        const open = comments.filter(comment => !comment.completed).length;
+        const lines: string[] = ['# Code Review', ''];
+        lines.push(`${comments.length} comments · ${open} open · ${comments.length - open} resolved`);
+        if (context.range) {
+            lines.push('', `Commit range: \`${shortHash(context.range.base)}..${shortHash(context.range.head)}\``);
+        }
+
+        const byFile = new Map<string, Comment[]>();
+        comments.forEach(comment => {
+            const file = context.getRepositoryPath(comment);
+            byFile.set(file, [...(byFile.get(file) ?? []), comment]);
+        });
+
+        [...byFile.keys()].sort().forEach(file => {
+            lines.push('', `## \`${file}\``);
+            byFile.get(file)!
+                .sort((a, b) => a.lineNumber - b.lineNumber)
+                .forEach(comment => lines.push('', renderComment(comment, context)));
+        });
+        return `${lines.join('\n')}\n`;
+    }
+};
@@ -0,0 +1,92 @@
+import { Comment, Severity, getEndLineNumber } from '../Comment';
+import { ExportContext, ReviewExporter } from './ReviewExporter';
+
+export const SARIF_RULE_ID = 'code-review-comment';
+
+const SARIF_LEVELS: Record<Severity, string> = {
+    blocker: 'error',
+    major: 'warning',
+    minor: 'note',
+    nit: 'note',
+    question: 'note',
+    praise: 'none'
+};
+
+function toResult(comment: Comment, context: ExportContext) {
+    // Regions refer to the run's head commit; lines with uncommitted changes only exist in the working tree.
+    const committed = context.getCommittedRange(comment);
+    const region: Record<string, number> = {
+        startLine: committed?.lineNumber ?? comment.lineNumber,
+        endLine: committed?.endLineNumber ?? getEndLineNumber(comment)
+    };
+    if (comment.startColumn !== undefined && comment.endColumn !== undefined) {
+        region.startColumn = comment.startColumn;
+        region.endColumn = comment.endColumn;
+    }
+    return {
+        ruleId: SARIF_RULE_ID,
+        level: comment.completed ? 'note' : comment.severity ? SARIF_LEVELS[comment.severity] : 'warning',
+        message: { text: comment.content },
+        locations: [{
+            physicalLocation: {
+                artifactLocation: { uri: context.getRepositoryPath(comment), uriBaseId: '%SRCROOT%' },
+                region
+            }
+        }],
+        partialFingerprints: { 'commentId/v1': comment.id },
+        ...(comment.suggestion ? {
+            fixes: [{
+                description: { text: 'Suggested change' },
+                artifactChanges: [{
+                    artifactLocation: { uri: context.getRepositoryPath(comment), uriBaseId: '%SRCROOT%' },
+                    replacements: [{ deletedRegion: region, insertedContent: { text: comment.suggestion.replacement } }]
+                }]
+            }]
+        } : {}),
+        // Resolved comments stay in the log, suppressed, so CI can tell them from new findings.
+        ...(comment.completed ? { suppressions: [{ kind: 'external', justification: 'Resolved in code review' }] } : {}),
+        properties: {
+            ...(committed ? {} : { uncommitted: true }),
+            createdAt: comment.createdAt,
+            completed: comment.completed,
+            outdated: !!comment.outdated,
+            ...(comment.author ? { author: comment.author } : {}),
+            ...(comment.severity ? { severity: comment.severity } : {}),
+            ...(comment.category ? { category: comment.category } : {}),
+            ...(comment.tags?.length ? { tags: comment.tags } : {}),
+            ...(comment.replies?.length ? { replies: comment.replies } : {})
+        }
+    };
+}
+
+export const sarifExporter: ReviewExporter = {
+    id: 'sarif',
+    label: 'SARIF 2.1',
+    description: 'Static analysis results format for CI tools',
+    fileExtension: 'sarif',
+    export(comments, context) {
+        const log = {
+            $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+            version: '2.1.0',
+            runs: [{
+                tool: {
+                    driver: {
+                        name: 'Code Review Comments',
+                        informationUri: 'https://github.com/guzhongren/code-review-comments',
+                        rules: [{
+                            id: SARIF_RULE_ID,
+                            name: 'CodeReviewComment',
+                            shortDescription: { text: 'Code review comment' }
+                        }]
+                    }
+                },
+                properties: {
+                    ...(context.headCommit ? { headCommit: context.headCommit } : {}),
+                    ...(context.range ? { range: context.range } : {})
+                },
+                results: comments.map(comment => toResult(comment, context))
+            }]
+        };
+        return `${JSON.stringify(log, null, 2)}\n`;
+    }
+};
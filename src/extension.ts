@@ -1,102 +1,347 @@
 import * as vscode from 'vscode';
-import * as path from 'path';
 import { CommentManager } from './CommentManager';
-import { Comment } from './Comment';
-import { CommentProvider } from './CommentProvider';
+import { Comment, CommentSuggestion, getEndLineNumber } from './Comment';
+import { CommentProvider, DeletedCommentNode, GROUP_BY_LABELS, GroupBy } from './CommentProvider';
 import { DiffContentProvider } from './DiffContentProvider';
 import { v4 as uuidv4 } from 'uuid';
 import { formatTimestampWithTimezone } from './utils/time';
-import { getGitInfoForUri } from './gitUtils';
+import { gitService, isPseudoRevision } from './git/GitService';
+import { parseGitUri, toGitUri } from './git/gitUri';
 import { setupDecorations } from './decorations';
+import { createAnchor, createSnapshot } from './anchoring';
+import { CommentThreadController, ThreadComment } from './CommentThreadController';
+import { CommentNavigator } from './CommentNavigator';
+import { ReviewDashboard } from './ReviewDashboard';
+import { CommentCodeLensProvider } from './codeLens';
+import { getCurrentAuthor, getCurrentIdentity, loadAuthorIdentities } from './utils/author';
+import { setCompleted } from './comments';
+import { MentionCompletionProvider, pickAssignees, promptComment } from './mentions';
+import { expandTemplate, pickTemplate } from './templates';
+import { attachChecklist, openChecklistsFile, setItemChecked } from './checklists';
+import { getCommentRange, selectionToCommentRange } from './commentRange';
+import { exportReview } from './export/exportReview';
+import { importComments } from './import/importComments';
+import { pickClassification } from './severity';
+import { CommentDiagnostics } from './diagnostics';
+import { applySuggestion, promptSuggestion } from './suggestions';
+import { migrateToGitNotes, syncGitNotes } from './storage/gitNotesCommands';
+import { ChecklistNode, ReviewFileNode, ReviewNode, ReviewProvider } from './ReviewProvider';
+import { pickWorkspaceFolder } from './utils/workspace';
+import { Review, describeReview } from './Review';
+import { finishReview, startReview, updateReviewHead } from './reviews';
 
-export function activate(context: vscode.ExtensionContext) {
+export async function activate(context: vscode.ExtensionContext) {
 
-    const commentManager = new CommentManager();
-    const commentProvider = new CommentProvider(commentManager.getComments());
+    const commentManager = new CommentManager(context.workspaceState);
+    context.subscriptions.push(commentManager);
+    await commentManager.syncWorkspaceFolders();
+    commentManager.pruneDeletedComments();
+    const commentProvider = new CommentProvider(commentManager.getComments(), commentManager.getDeletedComments(), context.workspaceState, reviewId => {
+        const review = commentManager.getReview(reviewId);
+        return review ? describeReview(review) : 'Unknown Review';
+    }, comment => commentManager.getAuthorIdentity(comment));
 
-    vscode.window.registerTreeDataProvider('code-review-comments-view', commentProvider);
+    const treeView = vscode.window.createTreeView('code-review-comments-view', { treeDataProvider: commentProvider });
+    treeView.description = commentProvider.describeFilters();
+    context.subscriptions.push(treeView);
+
+    const reviewProvider = new ReviewProvider(commentManager, context.workspaceState);
+    const reviewTreeView = vscode.window.createTreeView('code-review-comments-reviews', { treeDataProvider: reviewProvider });
+    context.subscriptions.push(reviewTreeView);
 
     const updateDecorations = setupDecorations(context, commentManager);
 
+    const threadController = new CommentThreadController(commentManager);
+    context.subscriptions.push(threadController);
+    const navigator = new CommentNavigator(commentManager);
+    context.subscriptions.push(navigator);
+
+    const dashboard = new ReviewDashboard(commentManager);
+    context.subscriptions.push(dashboard);
+    const codeLensProvider = new CommentCodeLensProvider(commentManager);
+    context.subscriptions.push(codeLensProvider);
+    context.subscriptions.push(vscode.languages.registerCodeLensProvider([{ scheme: 'file' }, { scheme: 'git' }], codeLensProvider));
+
+    // Reply and edit boxes of comment threads are documents with the `comment` scheme.
+    context.subscriptions.push(vscode.languages.registerCompletionItemProvider({ scheme: 'comment' }, new MentionCompletionProvider(commentManager), '@'));
+
+    const diagnostics = new CommentDiagnostics(commentManager);
+    context.subscriptions.push(diagnostics);
+    context.subscriptions.push(vscode.languages.registerCodeActionsProvider({ scheme: 'file' }, diagnostics, {
+        providedCodeActionKinds: CommentDiagnostics.providedCodeActionKinds
+    }));
+
+    // Register the DiffContentProvider
+    const diffContentProvider = new DiffContentProvider(commentManager);
+    context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(DiffContentProvider.scheme, diffContentProvider));
+
     const refreshView = () => {
-        commentProvider.refresh(commentManager.getComments());
+        commentProvider.refresh(commentManager.getComments(), commentManager.getDeletedComments());
+        reviewProvider.refresh();
+        threadController.refresh(commentManager.getComments());
+        diagnostics.refresh(commentManager.getComments());
+        navigator.refresh();
+        codeLensProvider.refresh();
+        dashboard.refresh();
+        vscode.workspace.textDocuments
+            .filter(document => document.uri.scheme === DiffContentProvider.scheme)
+            .forEach(document => diffContentProvider.refresh(document.uri));
         // Also update decorations for all visible editors when comments change
         vscode.window.visibleTextEditors.forEach(editor => updateDecorations(editor));
     };
 
-    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.addComment', async () => {
+    const addComment = async (withSuggestion: boolean) => {
         const editor = vscode.window.activeTextEditor;
         if (!editor) {
             return;
         }
 
-        const position = editor.selection.active;
-        const commentText = await vscode.window.showInputBox({ prompt: 'Enter your comment' });
+        // Both file and git URIs carry the file's path on disk; comments are stored relative to its workspace folder.
+        const location = commentManager.getCommentLocation(vscode.Uri.file(editor.document.uri.fsPath));
+        if (!location) {
+            vscode.window.showErrorMessage('Comments can only be added to files inside a workspace folder.');
+            return;
+        }
+        const folder = commentManager.getWorkspaceFolder(location.workspaceFolder)!;
+        const identity = getCurrentIdentity(folder.uri.fsPath);
+
+        const commentRange = selectionToCommentRange(editor.selection);
+        const selectedText = editor.document.getText(editor.document.validateRange(getCommentRange(commentRange)));
+        const template = await pickTemplate();
+        if (template === undefined) {
+            return;
+        }
+        const commentText = await promptComment(commentManager, {
+            prompt: 'Enter your comment',
+            value: template ? expandTemplate(template.body, {
+                file: location.fileName,
+                line: commentRange.lineNumber,
+                endLine: getEndLineNumber(commentRange),
+                selection: selectedText,
+                author: identity.name
+            }) : undefined
+        });
         if (!commentText) {
             return;
         }
+        const classification = await pickClassification(template ?? undefined);
+        if (!classification) {
+            return;
+        }
+        let suggestion: CommentSuggestion | undefined;
+        if (withSuggestion) {
+            suggestion = await promptSuggestion(selectedText);
+            if (!suggestion) {
+                return;
+            }
+        }
 
         let commitHash: string;
         let parentHash: string;
-        let relativeFileName: string; // Changed to relativeFileName
+        let baseLineNumber: number;
+        let subject: string | undefined;
 
         if (editor.document.uri.scheme === 'git') {
             // Adding comment from a Git diff view (right side)
-            const gitInfo = await getGitInfoForUri(editor.document.uri);
-            if (!gitInfo) {
+            const query = parseGitUri(editor.document.uri);
+            const revision = query ? await gitService.getRevisionInfo(folder.uri.fsPath, query.ref, location.fileName) : undefined;
+            if (!revision) {
+                vscode.window.showErrorMessage('Could not tell which commit this diff view shows.');
                 return;
             }
-            commitHash = gitInfo.commitHash;
-            parentHash = gitInfo.parentHash;
-            relativeFileName = gitInfo.relativeFileName;
+            commitHash = revision.commitHash;
+            parentHash = revision.parentHash;
+            subject = await gitService.getSubject(folder.uri.fsPath, commitHash);
+            // The diff side shows the file at `commitHash`, so the line is already a base line.
+            baseLineNumber = commentRange.lineNumber;
 
         } else if (editor.document.uri.scheme === 'file') {
-            // Adding comment from a regular file editor
-            const blameResult = await commentManager.getBlameCommitForLine(editor.document.uri, position.line + 1);
+            // Adding comment from a regular file editor; blame the editor's text, which may not be saved yet
+            let blameResult;
+            try {
+                blameResult = await gitService.blameLine(folder.uri.fsPath, location.fileName, commentRange.lineNumber, editor.document.getText());
+            } catch (error) {
+                console.error('Failed to blame the current line:', error);
+            }
             if (!blameResult) {
                 vscode.window.showErrorMessage('Could not get Git blame information for the current line.');
                 return;
             }
             commitHash = blameResult.commitHash;
             parentHash = blameResult.parentHash;
-            relativeFileName = vscode.workspace.asRelativePath(editor.document.fileName); // Convert to relative
+            baseLineNumber = blameResult.originalLineNumber;
+            subject = blameResult.summary;
         } else {
             // Handle other schemes if necessary, or show an error
             vscode.window.showErrorMessage(`Unsupported document scheme: ${editor.document.uri.scheme}`);
             return;
         }
 
+        const lines = editor.document.getText().split(/\r?\n/);
         const newComment: Comment = {
             id: uuidv4(),
             content: commentText,
-            fileName: relativeFileName, // Store as relative
-            lineNumber: position.line + 1,
+            workspaceFolder: location.workspaceFolder,
+            fileName: location.fileName, // Store as relative
+            ...commentRange,
             hash: commitHash,
             parentHash: parentHash,
             createdAt: formatTimestampWithTimezone(new Date()),
-            completed: false
+            completed: false,
+            ...classification,
+            author: identity.name,
+            ...(identity.email ? { authorEmail: identity.email } : {}),
+            anchor: createAnchor(lines, commentRange.lineNumber, baseLineNumber),
+            snapshot: createSnapshot(lines, commentRange.lineNumber, getEndLineNumber(commentRange), isPseudoRevision(commitHash) ? undefined : subject)
         };
+        if (suggestion) {
+            newComment.suggestion = suggestion;
+        }
+        const activeReview = reviewProvider.activeReview;
+        if (activeReview && activeReview.workspaceFolder === location.workspaceFolder) {
+            newComment.reviewId = activeReview.id;
+        }
         commentManager.addComment(newComment);
+        // Comments made on an older revision are moved onto the matching working tree line.
+        await commentManager.reanchorComments(vscode.Uri.file(editor.document.uri.fsPath));
         refreshView();
+    };
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.addComment', () => addComment(false)));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.addSuggestion', () => addComment(true)));
+
+    // Actions are offered on tree items and comment threads, and by id from CodeLenses and hover links.
+    const toComment = (target: Comment | vscode.CommentThread | string): Comment | undefined => {
+        const id = typeof target === 'string' ? target
+            : 'comments' in target && 'uri' in target ? threadController.getCommentId(target) : (target as Comment).id;
+        return id ? commentManager.getComment(id) : undefined;
+    };
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.previewSuggestion', async (target: Comment | vscode.CommentThread) => {
+        const comment = toComment(target);
+        if (!comment) {
+            return;
+        }
+        const fileUri = commentManager.getCommentUri(comment);
+        if (!fileUri || !comment.suggestion) {
+            return;
+        }
+        const title = `Suggestion: ${vscode.workspace.asRelativePath(fileUri)}`;
+        await vscode.commands.executeCommand('vscode.diff', fileUri, DiffContentProvider.toSuggestionUri(fileUri, comment.id), title, {
+            preview: true,
+            selection: getCommentRange(comment)
+        });
     }));
 
-    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.deleteComment', (comment: Comment) => {
-        commentManager.deleteComment(comment.id);
-        refreshView();
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.applySuggestion', async (target: Comment | vscode.CommentThread) => {
+        const comment = toComment(target);
+        if (comment && await applySuggestion(commentManager, comment)) {
+            refreshView();
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.deleteComment', (target: Comment | string) => {
+        const comment = toComment(target);
+        if (comment) {
+            commentManager.deleteComment(comment.id);
+            refreshView();
+        }
     }));
 
-    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.refresh', () => {
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.refresh', async () => {
+        // Picks up changes to the git config and history, e.g. a new user.name.
+        gitService.clearCache();
+        await loadAuthorIdentities(commentManager.getWorkspaceFolders().map(folder => folder.uri.fsPath));
         refreshView();
     }));
 
-    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.deleteAllComments', async () => {
+    // Deletes the comments of one review: the one it was invoked on, or a picked one.
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.deleteAllComments', async (node?: ReviewNode) => {
+        let review: Review | undefined = node?.review;
+        if (!review) {
+            const reviews = commentManager.getReviews();
+            const activeId = reviewProvider.activeReview?.id;
+            const hasLooseComments = commentManager.getComments().some(comment => !comment.reviewId);
+            const picks = [
+                ...reviews.map(r => ({ label: describeReview(r), description: r.id === activeId ? 'Active' : r.finishedAt ? 'Finished' : 'In progress', review: r as Review | undefined })),
+                ...(hasLooseComments ? [{ label: 'Comments Outside a Review', description: '', review: undefined }] : [])
+            ].sort((a, b) => Number(b.review?.id === activeId) - Number(a.review?.id === activeId));
+            if (picks.length === 0) {
+                return;
+            }
+            const picked = picks.length === 1 ? picks[0] : await vscode.window.showQuickPick(picks, { placeHolder: 'Delete the comments of which review?' });
+            if (!picked) {
+                return;
+            }
+            review = picked.review;
+        }
+        const count = commentManager.getComments().filter(comment => comment.reviewId === review?.id).length;
+        const scope = review ? `of the review ${describeReview(review)}` : 'outside a review';
         const confirm = await vscode.window.showWarningMessage(
-            'Are you sure you want to delete all comments? This action cannot be undone.',
+            `Are you sure you want to delete all ${count} comments ${scope}? You can undo this or restore them from Recently Deleted.`,
             { modal: true },
             'Delete All'
         );
         if (confirm === 'Delete All') {
-            commentManager.deleteAllComments();
+            commentManager.deleteAllComments(review?.id);
+            refreshView();
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.undo', async () => {
+        const label = commentManager.undo();
+        if (!label) {
+            vscode.window.showInformationMessage('Nothing to undo.');
+            return;
+        }
+        vscode.window.setStatusBarMessage(`Undid ${label}`, 3000);
+        // Undone moves may put comments back on lines that have changed since.
+        await commentManager.reanchorComments();
+        refreshView();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.redo', async () => {
+        const label = commentManager.redo();
+        if (!label) {
+            vscode.window.showInformationMessage('Nothing to redo.');
+            return;
+        }
+        vscode.window.setStatusBarMessage(`Redid ${label}`, 3000);
+        await commentManager.reanchorComments();
+        refreshView();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.restoreComment', async (node: DeletedCommentNode) => {
+        if (!commentManager.restoreComment(node.comment.id)) {
+            vscode.window.showErrorMessage(`The workspace folder "${node.comment.workspaceFolder ?? ''}" of this comment is not open.`);
+            return;
+        }
+        await commentManager.reanchorComments();
+        refreshView();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.purgeComment', async (node: DeletedCommentNode) => {
+        const confirm = await vscode.window.showWarningMessage(
+            'Permanently delete this comment? This action cannot be undone.',
+            { modal: true },
+            'Delete Permanently'
+        );
+        if (confirm === 'Delete Permanently') {
+            commentManager.purgeDeletedComments([node.comment.id]);
+            refreshView();
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.emptyRecentlyDeleted', async () => {
+        const count = commentManager.getDeletedComments().length;
+        const confirm = await vscode.window.showWarningMessage(
+            `Permanently delete all ${count} recently deleted comments? This action cannot be undone.`,
+            { modal: true },
+            'Delete Permanently'
+        );
+        if (confirm === 'Delete Permanently') {
+            commentManager.purgeDeletedComments();
             refreshView();
         }
     }));
@@ -106,14 +351,22 @@ export function activate(context: vscode.ExtensionContext) {
         refreshView();
     }));
 
-    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.toggleCompleted', (comment: Comment) => {
-        comment.completed = !comment.completed;
-        commentManager.updateComment(comment);
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.toggleCompleted', (target: Comment | string) => {
+        const comment = toComment(target);
+        if (!comment) {
+            return;
+        }
+        setCompleted(comment, !comment.completed, commentManager.getAuthorIdentity(comment).name, formatTimestampWithTimezone(new Date()));
+        commentManager.updateComment(comment, comment.completed ? 'Complete Comment' : 'Reopen Comment');
         refreshView();
     }));
 
-    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.editComment', async (comment: Comment) => {
-        const newCommentText = await vscode.window.showInputBox({ value: comment.content, prompt: 'Edit your comment' });
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.editComment', async (target: Comment | string) => {
+        const comment = toComment(target);
+        if (!comment) {
+            return;
+        }
+        const newCommentText = await promptComment(commentManager, { value: comment.content, prompt: 'Edit your comment' });
         if (newCommentText) {
             comment.content = newCommentText;
             commentManager.updateComment(comment);
@@ -121,40 +374,407 @@ export function activate(context: vscode.ExtensionContext) {
         }
     }));
 
-    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.showDiff', async (comment: Comment) => {
-        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-        if (!workspaceFolder) {
-            vscode.window.showErrorMessage('No workspace folder open.');
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.classifyComment', async (comment: Comment) => {
+        const classification = await pickClassification(comment);
+        if (classification) {
+            delete comment.severity;
+            delete comment.category;
+            delete comment.tags;
+            Object.assign(comment, classification);
+            commentManager.updateComment(comment, 'Classify Comment');
+            refreshView();
+        }
+    }));
+
+    // The commit of a comment is gone, so its diff can't be shown; compare the code it was made on with that code now.
+    const showSnapshot = async (comment: Comment, fileUri: vscode.Uri, relativePath: string) => {
+        const shortHash = comment.hash.substring(0, 7);
+        if (!comment.snapshot) {
+            vscode.window.showWarningMessage(`Commit ${shortHash} of this comment no longer exists, and no snapshot of the commented code was kept.`);
+            if (!comment.orphaned) {
+                await vscode.window.showTextDocument(fileUri, { preview: true, selection: getCommentRange(comment) });
+            }
             return;
         }
+        const snapshotUri = DiffContentProvider.toUri(fileUri, comment.id, 'snapshot');
+        const snapshotSelection = getCommentRange(comment, DiffContentProvider.getExcerptLineNumber(comment, 'snapshot'));
+        if (comment.orphaned) {
+            // Nothing to compare with; the file is gone too.
+            await vscode.window.showTextDocument(snapshotUri, { preview: true, selection: snapshotSelection });
+            return;
+        }
+        const title = `Snapshot: ${relativePath} (${shortHash}, no longer in the repository) ↔ Working Tree`;
+        await vscode.commands.executeCommand('vscode.diff', snapshotUri, DiffContentProvider.toUri(fileUri, comment.id, 'current'), title, {
+            preview: true,
+            selection: getCommentRange(comment, DiffContentProvider.getExcerptLineNumber(comment, 'current'))
+        });
+    };
 
-        // Convert stored relative fileName to absolute for URI construction
-        const absoluteFileName = path.join(workspaceFolder.uri.fsPath, comment.fileName);
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.showDiff', async (target: Comment | string) => {
+        const comment = toComment(target);
+        if (!comment) {
+            return;
+        }
+        // Resolve the stored relative fileName against the comment's own workspace folder
+        const fileUri = commentManager.getCommentUri(comment);
+        // The file may have been renamed since, in which case the revisions have it under its old path.
+        const originalFileUri = commentManager.getCommentUri(comment, true);
+        if (!fileUri || !originalFileUri) {
+            vscode.window.showErrorMessage(`The workspace folder "${comment.workspaceFolder ?? ''}" of this comment is not open.`);
+            return;
+        }
+        const relativeFilePathForTitle = vscode.workspace.asRelativePath(fileUri);
 
-        const relativeFilePathForTitle = vscode.workspace.asRelativePath(absoluteFileName);
+        if (comment.commitMissing) {
+            await showSnapshot(comment, fileUri, relativeFilePathForTitle);
+            return;
+        }
 
-        const originalUri = vscode.Uri.parse(`git:${absoluteFileName}?${JSON.stringify({ path: absoluteFileName, ref: comment.parentHash })}`);
-        const modifiedUri = vscode.Uri.file(absoluteFileName);
+        const originalUri = toGitUri(originalFileUri, comment.parentHash);
+        // A deleted file is shown as it was last known: in the commented revision, or its parent for uncommitted changes.
+        const modifiedUri = comment.orphaned
+            ? toGitUri(originalFileUri, isPseudoRevision(comment.hash) ? comment.parentHash : comment.hash)
+            : fileUri;
 
         const shortParent = comment.parentHash && comment.parentHash.length >= 7 ? comment.parentHash.substring(0, 7) : (comment.parentHash || 'n/a');
         const shortHash = comment.hash && comment.hash.length >= 7 ? comment.hash.substring(0, 7) : (comment.hash || 'n/a');
-        const title = `Diff: ${relativeFilePathForTitle} (${shortParent}..${shortHash})`;
+        const title = `Diff: ${relativeFilePathForTitle} (${shortParent}..${shortHash})${comment.orphaned ? ' · deleted' : ''}`;
 
-        // Add selection to jump to the line in the modified (right) file of the diff view
+        // Select the commented range in the modified (right) file of the diff view
         const options: vscode.TextDocumentShowOptions = {
             preview: true,
-            selection: new vscode.Range(comment.lineNumber - 1, 0, comment.lineNumber - 1, 0)
+            selection: getCommentRange(comment, comment.orphaned ? comment.anchor?.baseLineNumber : undefined)
         };
 
         await vscode.commands.executeCommand('vscode.diff', originalUri, modifiedUri, title, options);
     }));
 
-    // Register the DiffContentProvider
-    context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(DiffContentProvider.scheme, new DiffContentProvider()));
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.openThread', async (...ids: string[]) => {
+        if (!await threadController.reveal(ids)) {
+            // Orphaned comments have no thread; their diff is all there is.
+            await vscode.commands.executeCommand('code-review-comments.showDiff', ids[0]);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.nextComment', () => navigator.next()));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.previousComment', () => navigator.previous()));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.nextCommentInFile', () => navigator.nextInFile()));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.previousCommentInFile', () => navigator.previousInFile()));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.replyThread', (reply: vscode.CommentReply) => {
+        const id = threadController.getCommentId(reply.thread);
+        const comment = id ? commentManager.getComment(id) : undefined;
+        if (!comment || !reply.text.trim()) {
+            return;
+        }
+        const identity = commentManager.getAuthorIdentity(comment);
+        comment.replies = [...(comment.replies ?? []), {
+            id: uuidv4(),
+            author: identity.name,
+            ...(identity.email ? { authorEmail: identity.email } : {}),
+            body: reply.text,
+            createdAt: formatTimestampWithTimezone(new Date())
+        }];
+        commentManager.updateComment(comment, 'Reply');
+        refreshView();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.editThreadComment', (threadComment: ThreadComment) => {
+        threadController.setEditing(threadComment, true);
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.cancelEditThreadComment', (threadComment: ThreadComment) => {
+        threadController.setEditing(threadComment, false);
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.saveThreadComment', (threadComment: ThreadComment) => {
+        const comment = commentManager.getComment(threadComment.commentId);
+        const body = typeof threadComment.body === 'string' ? threadComment.body : threadComment.body.value;
+        threadController.setEditing(threadComment, false);
+        if (!comment || !body.trim()) {
+            return;
+        }
+        if (threadComment.replyId) {
+            comment.replies = (comment.replies ?? []).map(reply => reply.id === threadComment.replyId ? { ...reply, body } : reply);
+        } else {
+            comment.content = body;
+        }
+        commentManager.updateComment(comment);
+        refreshView();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.deleteThreadComment', async (threadComment: ThreadComment) => {
+        const comment = commentManager.getComment(threadComment.commentId);
+        if (!comment) {
+            return;
+        }
+        if (threadComment.replyId) {
+            comment.replies = (comment.replies ?? []).filter(reply => reply.id !== threadComment.replyId);
+            commentManager.updateComment(comment, 'Delete Reply');
+        } else {
+            const confirm = await vscode.window.showWarningMessage(
+                'Deleting the first comment deletes the whole conversation. Continue?',
+                { modal: true },
+                'Delete'
+            );
+            if (confirm !== 'Delete') {
+                return;
+            }
+            commentManager.deleteComment(comment.id);
+        }
+        refreshView();
+    }));
+
+    const setThreadResolved = (thread: vscode.CommentThread, completed: boolean) => {
+        const id = threadController.getCommentId(thread);
+        const comment = id ? commentManager.getComment(id) : undefined;
+        if (comment) {
+            setCompleted(comment, completed, commentManager.getAuthorIdentity(comment).name, formatTimestampWithTimezone(new Date()));
+            commentManager.updateComment(comment, completed ? 'Resolve Comment' : 'Reopen Comment');
+            refreshView();
+        }
+    };
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.resolveThread', (thread: vscode.CommentThread) => {
+        setThreadResolved(thread, true);
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.unresolveThread', (thread: vscode.CommentThread) => {
+        setThreadResolved(thread, false);
+    }));
+
+    (Object.keys(GROUP_BY_LABELS) as GroupBy[]).forEach(groupBy => {
+        const command = `code-review-comments.groupBy${groupBy.charAt(0).toUpperCase()}${groupBy.substring(1)}`;
+        context.subscriptions.push(vscode.commands.registerCommand(command, () => commentProvider.setGroupBy(groupBy)));
+    });
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.filterComments', async () => {
+        const filterText = await vscode.window.showInputBox({
+            value: commentProvider.filterText,
+            prompt: 'Show comments whose text, file, author, commit or replies contain',
+            placeHolder: 'Search comments'
+        });
+        if (filterText !== undefined) {
+            await commentProvider.setFilterText(filterText);
+            treeView.description = commentProvider.describeFilters();
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.clearFilter', async () => {
+        await commentProvider.setFilterText('');
+        await commentProvider.setPeopleFilter(undefined);
+        treeView.description = commentProvider.describeFilters();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.showOpenOnly', async () => {
+        await commentProvider.setOpenOnly(true);
+        treeView.description = commentProvider.describeFilters();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.showAllComments', async () => {
+        await commentProvider.setOpenOnly(false);
+        treeView.description = commentProvider.describeFilters();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.showMine', async () => {
+        await commentProvider.setPeopleFilter({ kind: 'mine' });
+        treeView.description = commentProvider.describeFilters();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.showAssignedToMe', async () => {
+        await commentProvider.setPeopleFilter({ kind: 'assignedToMe' });
+        treeView.description = commentProvider.describeFilters();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.filterByAuthor', async () => {
+        const authors = [...new Set(commentManager.getComments().map(comment => comment.author ?? ''))].sort((a, b) => a.localeCompare(b));
+        if (authors.length === 0) {
+            vscode.window.showInformationMessage('There are no comments to filter.');
+            return;
+        }
+        const picked = await vscode.window.showQuickPick(authors.map(author => ({ label: author || 'Unknown', author })), {
+            placeHolder: 'Show the comments of'
+        });
+        if (picked) {
+            await commentProvider.setPeopleFilter({ kind: 'author', author: picked.author });
+            treeView.description = commentProvider.describeFilters();
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.showEveryone', async () => {
+        await commentProvider.setPeopleFilter(undefined);
+        treeView.description = commentProvider.describeFilters();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.assignComment', async (target: Comment | vscode.CommentThread | string) => {
+        const comment = toComment(target);
+        if (!comment) {
+            return;
+        }
+        const content = await pickAssignees(commentManager, comment);
+        if (content) {
+            comment.content = content;
+            commentManager.updateComment(comment, 'Assign Comment');
+            refreshView();
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.exportReview', () => exportReview(commentManager)));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.showDashboard', () => dashboard.show()));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.exportStatistics', () => dashboard.exportCsv()));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.importComments', async () => {
+        if (await importComments(commentManager)) {
+            refreshView();
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.startReview', async () => {
+        const review = await startReview(commentManager);
+        if (review) {
+            commentManager.addReview(review);
+            await reviewProvider.setActiveReview(review);
+            refreshView();
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.finishReview', async (node?: ReviewNode) => {
+        const review = node?.review ?? reviewProvider.activeReview;
+        if (review && await finishReview(commentManager, review)) {
+            if (review.id === reviewProvider.activeReview?.id) {
+                await reviewProvider.setActiveReview(undefined);
+            }
+            refreshView();
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.attachChecklist', async (node?: ReviewNode) => {
+        const review = node?.review ?? reviewProvider.activeReview;
+        if (!review) {
+            vscode.window.showInformationMessage('Start a review to attach a checklist to it.');
+            return;
+        }
+        if (await attachChecklist(commentManager, review)) {
+            reviewProvider.refresh();
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.removeChecklist', async (node: ChecklistNode) => {
+        const checked = node.checklist.items.filter(item => item.checked).length;
+        if (checked > 0) {
+            const confirm = await vscode.window.showWarningMessage(
+                `Remove the checklist "${node.checklist.name}" from the review? ${checked} of its items are ticked off.`,
+                { modal: true },
+                'Remove'
+            );
+            if (confirm !== 'Remove') {
+                return;
+            }
+        }
+        node.review.checklists = node.review.checklists?.filter(checklist => checklist !== node.checklist);
+        if (node.review.checklists?.length === 0) {
+            delete node.review.checklists;
+        }
+        commentManager.updateReview(node.review);
+        reviewProvider.refresh();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.editChecklists', async () => {
+        const folder = await pickWorkspaceFolder(commentManager, 'Which workspace folder\'s checklists do you want to edit?');
+        if (folder) {
+            await openChecklistsFile(folder);
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.resumeReview', async (node: ReviewNode) => {
+        await reviewProvider.setActiveReview(node.review);
+        refreshView();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.deleteReview', async (node: ReviewNode) => {
+        const count = commentManager.getComments().filter(comment => comment.reviewId === node.review.id).length;
+        const confirm = await vscode.window.showWarningMessage(
+            `Are you sure you want to delete the review ${describeReview(node.review)} and its ${count} comments? The comments go to Recently Deleted, and Undo brings back the review.`,
+            { modal: true },
+            'Delete'
+        );
+        if (confirm === 'Delete') {
+            commentManager.deleteReview(node.review.id);
+            refreshView();
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.refreshReviews', async () => {
+        const activeReview = reviewProvider.activeReview;
+        if (activeReview) {
+            await updateReviewHead(commentManager, activeReview);
+        }
+        refreshView();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.openReviewFile', async (node: ReviewFileNode) => {
+        const { review, file } = node;
+        const folder = commentManager.getWorkspaceFolder(review.workspaceFolder);
+        if (!folder) {
+            vscode.window.showErrorMessage(`The workspace folder "${review.workspaceFolder ?? ''}" of this review is not open.`);
+            return;
+        }
+        const toUri = (fileName: string) => vscode.Uri.joinPath(folder.uri, ...fileName.split('/'));
+        const originalUri = toGitUri(toUri(file.originalFileName ?? file.fileName), review.baseHash);
+        // Reviews in progress show the working tree, so comments can be added right in the diff.
+        const modifiedUri = review.finishedAt || file.status === 'D'
+            ? toGitUri(toUri(file.fileName), review.headHash)
+            : toUri(file.fileName);
+        const title = `${file.fileName} (${review.baseHash.substring(0, 7)}..${review.headHash.substring(0, 7)})`;
+        await vscode.commands.executeCommand('vscode.diff', originalUri, modifiedUri, title, { preview: true });
+    }));
+
+    context.subscriptions.push(reviewTreeView.onDidChangeCheckboxState(event => {
+        const changed = new Set<Review>();
+        event.items.forEach(([node, state]) => {
+            if (node.kind === 'reviewFile') {
+                if (state === vscode.TreeItemCheckboxState.Checked) {
+                    node.file.viewedBlob = node.currentBlob;
+                } else {
+                    delete node.file.viewedBlob;
+                }
+                changed.add(node.review);
+            } else if (node.kind === 'checklistItem') {
+                const checkedBy = getCurrentAuthor(commentManager.getWorkspaceFolder(node.review.workspaceFolder)?.uri.fsPath);
+                setItemChecked(node.item, state === vscode.TreeItemCheckboxState.Checked, checkedBy, formatTimestampWithTimezone(new Date()));
+                changed.add(node.review);
+            }
+        });
+        changed.forEach(review => commentManager.updateReview(review));
+        reviewProvider.refresh();
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.syncGitNotes', async () => {
+        if (await syncGitNotes(commentManager)) {
+            await commentManager.reanchorComments();
+            refreshView();
+        }
+    }));
+
+    context.subscriptions.push(vscode.commands.registerCommand('code-review-comments.migrateToGitNotes', async () => {
+        if (await migrateToGitNotes(commentManager)) {
+            await commentManager.reloadStores();
+            await commentManager.reanchorComments();
+            refreshView();
+        }
+    }));
+
 
     // Setup decorations
     // Initial decoration update for all visible editors
     vscode.window.visibleTextEditors.forEach(editor => updateDecorations(editor));
+    threadController.refresh(commentManager.getComments());
+    diagnostics.refresh(commentManager.getComments());
 
     // Update decorations when the active editor changes
     context.subscriptions.push(vscode.window.onDidChangeActiveTextEditor(editor => {
@@ -163,14 +783,74 @@ export function activate(context: vscode.ExtensionContext) {
         }
     }));
 
-    // Update decorations when a document is saved (relevant for regular files)
-    context.subscriptions.push(vscode.workspace.onDidSaveTextDocument(document => {
+    // Re-anchor comments on load, since the files may have changed while VS Code was closed
+    commentManager.reanchorComments().then(changed => {
+        if (changed) {
+            refreshView();
+        }
+    });
+
+    // Re-anchor and update decorations when a document is saved (relevant for regular files)
+    context.subscriptions.push(vscode.workspace.onDidSaveTextDocument(async document => {
+        if (document.uri.scheme === 'file') {
+            const changed = await commentManager.reanchorComments(document.uri);
+            if (changed) {
+                refreshView();
+                return;
+            }
+        }
         const editor = vscode.window.visibleTextEditors.find(e => e.document === document);
         if (editor) {
             updateDecorations(editor);
         }
     }));
 
+    // Comments follow their files when they are renamed or moved, and are orphaned when they are deleted
+    context.subscriptions.push(vscode.workspace.onDidRenameFiles(async event => {
+        const moved = event.files.map(file => commentManager.moveComments(file.oldUri, file.newUri)).some(Boolean);
+        if (await commentManager.reanchorComments() || moved) {
+            refreshView();
+        }
+    }));
+    context.subscriptions.push(vscode.workspace.onDidDeleteFiles(async () => {
+        if (await commentManager.reanchorComments()) {
+            refreshView();
+        }
+    }));
+
+    // Each workspace folder has its own comment store
+    context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(async () => {
+        await commentManager.syncWorkspaceFolders();
+        await commentManager.reanchorComments();
+        refreshView();
+    }));
+
+    // Comments reloaded from disk, e.g. after `git pull`, may be on lines that have changed since
+    context.subscriptions.push(commentManager.onDidChange(async () => {
+        await commentManager.reanchorComments();
+        refreshView();
+    }));
+
+    // Switching the storage backend loads the comments kept by the new one
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(async event => {
+        const folders = commentManager.getWorkspaceFolders().filter(folder => event.affectsConfiguration('code-review-comments.storage', folder));
+        if (folders.length > 0) {
+            await commentManager.reloadStores(folders);
+            await commentManager.reanchorComments();
+            refreshView();
+        }
+    }));
+
+    // A shorter retention period drops older comments from Recently Deleted, and completed comments can be shown or hidden
+    context.subscriptions.push(vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('code-review-comments.trash.retentionDays')) {
+            commentManager.pruneDeletedComments();
+        }
+        if (event.affectsConfiguration('code-review-comments.trash.retentionDays') || event.affectsConfiguration('code-review-comments.showCompleted')) {
+            refreshView();
+        }
+    }));
+
     // Update decorations when visible text editors change (e.g., opening/closing diff views)
     context.subscriptions.push(vscode.window.onDidChangeVisibleTextEditors(editors => {
         editors.forEach(editor => updateDecorations(editor));
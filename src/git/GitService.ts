@@ -0,0 +1,492 @@
+import { execFile } from 'child_process';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+
+const execFilePromise = promisify(execFile);
+
+/**
+ * Pseudo-revisions for changes that aren't committed yet. Refs can't contain `~`, so these
+ * never clash with a branch or tag name.
+ */
+export const WORKING_TREE = '~working-tree';
+export const INDEX = '~index';
+
+export const isPseudoRevision = (revision: string): boolean => revision === WORKING_TREE || revision === INDEX;
+
+// Blame reports lines that aren't committed yet with this hash.
+const UNCOMMITTED_HASH = '0'.repeat(40);
+
+const MAX_CACHED_BLAMES = 50;
+
+// How many recent commits are searched for the rewritten version of a commit.
+const MAX_REWRITE_CANDIDATES = 300;
+
+const isFullHash = (value: string): boolean => /^[0-9a-f]{40}$/.test(value);
+
+export interface BlameCommit {
+    hash: string;
+    author?: string;
+    authorMail?: string;
+    // Seconds since the epoch.
+    authorTime?: number;
+    summary?: string;
+    // The commit before this one that touched the file, and the file's name there.
+    previous?: { hash: string; fileName: string };
+}
+
+export interface BlameLine {
+    commit: BlameCommit;
+    // The line in the blamed commit, and in the blamed contents.
+    originalLineNumber: number;
+    finalLineNumber: number;
+    // The file's name in the blamed commit, which differs after a rename.
+    fileName: string;
+}
+
+export interface RevisionInfo {
+    // A commit hash or one of the pseudo-revisions.
+    commitHash: string;
+    parentHash: string;
+}
+
+export interface BlamedRevision extends RevisionInfo {
+    // The line in `commitHash`.
+    originalLineNumber: number;
+    author?: string;
+    summary?: string;
+}
+
+/**
+ * Whether a commit can be reached from a ref or HEAD, only exists as an object, e.g. after a
+ * rebase, or is gone, e.g. after `git gc`.
+ */
+export type CommitState = 'reachable' | 'unreachable' | 'missing';
+
+// Results that hold as long as no ref or HEAD moves.
+interface RefsCache {
+    fingerprint: string;
+    states: Map<string, CommitState>;
+    rewrites: Map<string, string | undefined>;
+}
+
+export interface GitIdentity {
+    name: string;
+    email?: string;
+}
+
+export interface Contributor extends GitIdentity {
+    commits: number;
+}
+
+interface DiffHunk {
+    oldStart: number;
+    oldCount: number;
+    newStart: number;
+    newCount: number;
+}
+
+/** Parses `git blame --porcelain` output into one entry per blamed line. */
+export function parsePorcelainBlame(output: string): BlameLine[] {
+    const commits = new Map<string, BlameCommit>();
+    const fileNames = new Map<string, string>();
+    const lines: BlameLine[] = [];
+    let current: { commit: BlameCommit; originalLineNumber: number; finalLineNumber: number } | undefined;
+
+    for (const line of output.split('\n')) {
+        const header = /^([0-9a-f]{40}) (\d+) (\d+)/.exec(line);
+        if (header) {
+            const [, hash, original, final] = header;
+            if (!commits.has(hash)) {
+                commits.set(hash, { hash });
+            }
+            current = { commit: commits.get(hash)!, originalLineNumber: Number(original), finalLineNumber: Number(final) };
+        } else if (line.startsWith('\t')) {
+            if (current) {
+                lines.push({ ...current, fileName: fileNames.get(current.commit.hash) ?? '' });
+                current = undefined;
+            }
+        } else if (current) {
+            const separator = line.indexOf(' ');
+            const key = separator === -1 ? line : line.substring(0, separator);
+            const value = separator === -1 ? '' : line.substring(separator + 1);
+            const commit = current.commit;
+            switch (key) {
+                case 'author':
+                    commit.author = value;
+                    break;
+                case 'author-mail':
+                    commit.authorMail = value.replace(/^<|>$/g, '');
+                    break;
+                case 'author-time':
+                    commit.authorTime = Number(value);
+                    break;
+                case 'summary':
+                    commit.summary = value;
+                    break;
+                case 'previous': {
+                    const space = value.indexOf(' ');
+                    commit.previous = { hash: value.substring(0, space), fileName: value.substring(space + 1) };
+                    break;
+                }
+                case 'filename':
+                    fileNames.set(commit.hash, value);
+                    break;
+            }
+        }
+    }
+    return lines;
+}
+
+/** Parses the hunk headers of a `git diff -U0` of a single file. */
+export function parseDiffHunks(diff: string): DiffHunk[] {
+    const hunks: DiffHunk[] = [];
+    const pattern = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/gm;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(diff)) !== null) {
+        hunks.push({
+            oldStart: Number(match[1]),
+            oldCount: match[2] === undefined ? 1 : Number(match[2]),
+            newStart: Number(match[3]),
+            newCount: match[4] === undefined ? 1 : Number(match[4])
+        });
+    }
+    return hunks;
+}
+
+/**
+ * Runs git for the extension and the command line tool. Arguments are always passed as an
+ * array, never through a shell, and revisions from outside are checked before they are used.
+ */
+export class GitService {
+    private blameCache = new Map<string, BlameLine[]>();
+    private contributorCache = new Map<string, Contributor[]>();
+    private refsCaches = new Map<string, RefsCache>();
+
+    // Runs git with the given arguments; `input` is written to its standard input.
+    async exec(args: string[], cwd: string, input?: string): Promise<string> {
+        const promise = execFilePromise('git', args, { cwd, maxBuffer: 64 * 1024 * 1024 });
+        if (input !== undefined) {
+            promise.child.stdin?.end(input);
+        }
+        const { stdout } = await promise;
+        return stdout;
+    }
+
+    // Like exec, but resolves to undefined when git fails.
+    async tryExec(args: string[], cwd: string, input?: string): Promise<string | undefined> {
+        try {
+            return await this.exec(args, cwd, input);
+        } catch {
+            return undefined;
+        }
+    }
+
+    // The full hash of the commit a revision points at, or undefined when it doesn't name one.
+    async resolveCommit(cwd: string, revision: string): Promise<string | undefined> {
+        if (!revision || revision.startsWith('-') || isPseudoRevision(revision)) {
+            return undefined;
+        }
+        return (await this.tryExec(['rev-parse', '--verify', '--quiet', `${revision}^{commit}`], cwd))?.trim() || undefined;
+    }
+
+    // The first parent of a commit; empty for a root commit.
+    async getParent(cwd: string, commit: string): Promise<string> {
+        return (await this.resolveCommit(cwd, `${commit}^`)) ?? '';
+    }
+
+    /**
+     * Blames every line of a file, at a revision or, by default, as in `contents` (e.g. an
+     * editor's unsaved text) or in the working tree. Results are cached per file and revision.
+     */
+    async blameFile(cwd: string, fileName: string, options: { revision?: string; contents?: string } = {}): Promise<BlameLine[]> {
+        const head = (await this.resolveCommit(cwd, 'HEAD')) ?? '';
+        let version: string;
+        if (options.revision) {
+            const commit = await this.resolveCommit(cwd, options.revision);
+            if (!commit) {
+                throw new Error(`"${options.revision}" is not a commit.`);
+            }
+            version = commit;
+        } else if (options.contents !== undefined) {
+            version = `${head}:${createHash('sha1').update(options.contents).digest('hex')}`;
+        } else {
+            version = `${head}:${fs.statSync(path.join(cwd, fileName)).mtimeMs}`;
+        }
+
+        const key = JSON.stringify([cwd, fileName, version]);
+        const cached = this.blameCache.get(key);
+        if (cached) {
+            // Move it to the end, so the least recently used blame is evicted first.
+            this.blameCache.delete(key);
+            this.blameCache.set(key, cached);
+            return cached;
+        }
+
+        const args = ['blame', '--porcelain'];
+        if (options.revision) {
+            args.push(version);
+        } else if (options.contents !== undefined) {
+            args.push('--contents', '-');
+        }
+        const lines = parsePorcelainBlame(await this.exec([...args, '--', fileName], cwd, options.revision ? undefined : options.contents));
+        this.blameCache.set(key, lines);
+        if (this.blameCache.size > MAX_CACHED_BLAMES) {
+            this.blameCache.delete(this.blameCache.keys().next().value!);
+        }
+        return lines;
+    }
+
+    /**
+     * The commit that last changed a line of the working tree (or of `contents`), with the line
+     * it had there. Lines that aren't committed yet belong to the INDEX pseudo-revision when
+     * they are staged and to WORKING_TREE otherwise, with HEAD as their parent.
+     */
+    async blameLine(cwd: string, fileName: string, lineNumber: number, contents?: string): Promise<BlamedRevision | undefined> {
+        const line = (await this.blameFile(cwd, fileName, { contents })).find(l => l.finalLineNumber === lineNumber);
+        if (!line) {
+            return undefined;
+        }
+        if (line.commit.hash !== UNCOMMITTED_HASH) {
+            return {
+                commitHash: line.commit.hash,
+                parentHash: await this.getParent(cwd, line.commit.hash),
+                originalLineNumber: line.originalLineNumber,
+                author: line.commit.author,
+                summary: line.commit.summary
+            };
+        }
+
+        // Unstaged changes are the lines the working tree adds to the index; the rest are staged.
+        const hunks = parseDiffHunks(await this.tryExec(['diff', '-U0', '--no-color', '--no-ext-diff', '--', fileName], cwd) ?? '');
+        let offset = 0;
+        for (const hunk of hunks) {
+            if (hunk.newCount > 0 && lineNumber >= hunk.newStart && lineNumber < hunk.newStart + hunk.newCount) {
+                return { commitHash: WORKING_TREE, parentHash: (await this.resolveCommit(cwd, 'HEAD')) ?? '', originalLineNumber: lineNumber };
+            }
+            const end = hunk.newCount > 0 ? hunk.newStart + hunk.newCount - 1 : hunk.newStart;
+            if (end < lineNumber) {
+                offset += hunk.newCount - hunk.oldCount;
+            }
+        }
+        return { commitHash: INDEX, parentHash: (await this.resolveCommit(cwd, 'HEAD')) ?? '', originalLineNumber: lineNumber - offset };
+    }
+
+    /**
+     * The commit a revision from a `git:` URI stands for, and its parent. An empty ref is the
+     * index, and `~` is the index when the file has staged changes and HEAD otherwise, as in
+     * VS Code's git extension.
+     */
+    async getRevisionInfo(cwd: string, ref: string, fileName: string): Promise<RevisionInfo | undefined> {
+        let revision = ref;
+        if (ref === '~') {
+            const staged = await this.tryExec(['diff', '--cached', '--name-only', '--', fileName], cwd);
+            revision = staged?.trim() ? INDEX : 'HEAD';
+        } else if (ref === '') {
+            revision = INDEX;
+        }
+        if (revision === INDEX) {
+            return { commitHash: INDEX, parentHash: (await this.resolveCommit(cwd, 'HEAD')) ?? '' };
+        }
+        const commit = await this.resolveCommit(cwd, revision);
+        if (!commit) {
+            return undefined;
+        }
+        return { commitHash: commit, parentHash: await this.getParent(cwd, commit) };
+    }
+
+    /**
+     * The `git diff -U0` from a revision to the working tree for one file, used to move
+     * comments along with the code. `originalFileName` is the file's path in the revision when
+     * it was renamed since. Undefined when there is nothing to compare against.
+     */
+    async getWorkingTreeDiff(cwd: string, revision: string, fileName: string, originalFileName?: string): Promise<string | undefined> {
+        if (revision === WORKING_TREE || !revision || revision.startsWith('-')) {
+            // Content matching is all there is for lines that were never saved anywhere.
+            return undefined;
+        }
+        const from = revision === INDEX ? [] : [revision];
+        const paths = originalFileName && originalFileName !== fileName ? [originalFileName, fileName] : [fileName];
+        return this.tryExec(['diff', '-U0', '-M', '--no-color', '--no-ext-diff', ...from, '--', ...paths], cwd);
+    }
+
+    /**
+     * The files renamed or deleted between a revision and the working tree, found with git's
+     * rename detection. Maps each path in the revision to its new path, or to undefined when
+     * the file was deleted. Paths are relative to `cwd`.
+     */
+    async getRenames(cwd: string, revision: string): Promise<Map<string, string | undefined>> {
+        const renames = new Map<string, string | undefined>();
+        if (revision === WORKING_TREE || !revision || revision.startsWith('-')) {
+            return renames;
+        }
+        const from = revision === INDEX ? [] : [revision];
+        const output = await this.tryExec(['diff', '-M', '--name-status', '-z', '--relative', '--diff-filter=RD', '--no-ext-diff', ...from], cwd) ?? '';
+        const fields = output.split('\0');
+        for (let i = 0; i + 1 < fields.length;) {
+            const status = fields[i++].charAt(0);
+            const oldName = fields[i++];
+            renames.set(oldName, status === 'R' ? fields[i++] : undefined);
+        }
+        return renames;
+    }
+
+    // The user from `git config`, or undefined when neither a name nor an email is configured.
+    async getUser(cwd: string): Promise<GitIdentity | undefined> {
+        const [name, email] = await Promise.all(['user.name', 'user.email'].map(async key =>
+            (await this.tryExec(['config', '--get', key], cwd))?.trim() || undefined));
+        if (!name && !email) {
+            return undefined;
+        }
+        return { name: name ?? email!, email };
+    }
+
+    // Everyone who authored a commit on HEAD, most commits first. Cached per folder.
+    async getContributors(cwd: string): Promise<Contributor[]> {
+        const cached = this.contributorCache.get(cwd);
+        if (cached) {
+            return cached;
+        }
+        // Without a revision shortlog reads a log from standard input.
+        const output = await this.tryExec(['shortlog', '-sne', 'HEAD', '--'], cwd) ?? '';
+        const contributors = output.split('\n').flatMap(line => {
+            const match = line.match(/^\s*(\d+)\t(.*?)(?:\s+<([^>]*)>)?$/);
+            return match ? [{ name: match[2], email: match[3] || undefined, commits: Number(match[1]) }] : [];
+        });
+        this.contributorCache.set(cwd, contributors);
+        return contributors;
+    }
+
+    // The subject line of a commit's message.
+    async getSubject(cwd: string, commit: string): Promise<string | undefined> {
+        if (!isFullHash(commit)) {
+            return undefined;
+        }
+        return (await this.tryExec(['log', '-1', '--format=%s', commit, '--'], cwd))?.trim() || undefined;
+    }
+
+    // A file's lines at a revision, with the path relative to `cwd`; undefined when it isn't there.
+    async getFileLines(cwd: string, revision: string, fileName: string): Promise<string[] | undefined> {
+        if (!isFullHash(revision)) {
+            return undefined;
+        }
+        return (await this.tryExec(['show', `${revision}:./${fileName}`], cwd))?.split(/\r?\n/);
+    }
+
+    /**
+     * Tells for each full commit hash whether it is reachable, unreachable or missing; other
+     * values, such as the pseudo-revisions, are left out.
+     */
+    async getCommitStates(cwd: string, hashes: string[]): Promise<Map<string, CommitState>> {
+        const cache = await this.getRefsCache(cwd);
+        const unknown = [...new Set(hashes)].filter(hash => isFullHash(hash) && !cache.states.has(hash));
+        if (unknown.length > 0) {
+            // One line per object, in input order: "<hash> commit <size>", or "<object> missing".
+            const objects = (await this.tryExec(['cat-file', '--batch-check'], cwd, unknown.map(hash => `${hash}^{commit}`).join('\n') + '\n'))?.split('\n');
+            if (!objects) {
+                // Not a repository, or git failed; nothing is known about the commits.
+                return new Map();
+            }
+            const existing = unknown.filter((hash, index) => {
+                if (!objects[index] || objects[index].endsWith(' missing')) {
+                    cache.states.set(hash, 'missing');
+                    return false;
+                }
+                return true;
+            });
+            if (existing.length > 0) {
+                // name-rev names commits after the refs they are reachable from, or "undefined".
+                const names = (await this.tryExec(['name-rev', '--name-only', ...existing], cwd))?.split('\n') ?? [];
+                for (const [index, hash] of existing.entries()) {
+                    const reachable = (names[index] !== undefined && names[index] !== 'undefined')
+                        || await this.tryExec(['merge-base', '--is-ancestor', hash, 'HEAD'], cwd) !== undefined;
+                    cache.states.set(hash, reachable ? 'reachable' : 'unreachable');
+                }
+            }
+        }
+        const states = new Map<string, CommitState>();
+        hashes.filter(hash => cache.states.has(hash)).forEach(hash => states.set(hash, cache.states.get(hash)!));
+        return states;
+    }
+
+    /**
+     * Looks for the reachable commit that replaced one rewritten by a rebase or an amend: one
+     * with the same patch-id among recent commits, while the old commit still exists, else the
+     * newest commit in the HEAD reflog with the given subject. Undefined when there is none.
+     */
+    async findRewrittenCommit(cwd: string, hash: string, subject?: string): Promise<string | undefined> {
+        const cache = await this.getRefsCache(cwd);
+        if (!cache.rewrites.has(hash)) {
+            let rewritten = await this.findByPatchId(cwd, hash);
+            if (!rewritten && subject) {
+                rewritten = await this.findInReflog(cwd, hash, subject);
+            }
+            cache.rewrites.set(hash, rewritten);
+        }
+        return cache.rewrites.get(hash);
+    }
+
+    clearCache(): void {
+        this.blameCache.clear();
+        this.contributorCache.clear();
+        this.refsCaches.clear();
+    }
+
+    // The cache for the current refs of a repository, emptied whenever a ref or HEAD moves.
+    private async getRefsCache(cwd: string): Promise<RefsCache> {
+        const refs = await this.tryExec(['for-each-ref', '--format=%(objectname) %(refname)'], cwd) ?? '';
+        const head = (await this.resolveCommit(cwd, 'HEAD')) ?? '';
+        const fingerprint = createHash('sha1').update(`${head}\n${refs}`).digest('hex');
+        let cache = this.refsCaches.get(cwd);
+        if (!cache || cache.fingerprint !== fingerprint) {
+            cache = { fingerprint, states: new Map(), rewrites: new Map() };
+            this.refsCaches.set(cwd, cache);
+        }
+        return cache;
+    }
+
+    // The patch-id of each commit in a `git log -p` or `git diff-tree -p` output, by commit.
+    private async getPatchIds(cwd: string, patches: string): Promise<Map<string, string>> {
+        const output = patches.trim() ? await this.exec(['patch-id', '--stable'], cwd, patches) : '';
+        const patchIds = new Map<string, string>();
+        output.split('\n').forEach(line => {
+            const [patchId, commit] = line.split(' ');
+            if (patchId && commit) {
+                patchIds.set(commit, patchId);
+            }
+        });
+        return patchIds;
+    }
+
+    private async findByPatchId(cwd: string, hash: string): Promise<string | undefined> {
+        const patch = await this.tryExec(['diff-tree', '-p', '--root', '--no-color', '--no-ext-diff', hash], cwd);
+        const patchId = patch && (await this.getPatchIds(cwd, patch)).get(hash);
+        if (!patchId) {
+            return undefined;
+        }
+        const log = await this.tryExec(['log', '-p', '--no-merges', '--no-color', '--no-ext-diff', `-n${MAX_REWRITE_CANDIDATES}`, '--branches', 'HEAD', '--'], cwd) ?? '';
+        for (const [commit, candidate] of await this.getPatchIds(cwd, log)) {
+            if (candidate === patchId && commit !== hash) {
+                return commit;
+            }
+        }
+        return undefined;
+    }
+
+    private async findInReflog(cwd: string, hash: string, subject: string): Promise<string | undefined> {
+        const reflog = await this.tryExec(['log', '-g', '--format=%H%x00%s', `-n${MAX_REWRITE_CANDIDATES}`, 'HEAD', '--'], cwd) ?? '';
+        const candidates = [...new Set(reflog.split('\n')
+            .map(line => line.split('\0'))
+            .filter(([commit, commitSubject]) => commit && commit !== hash && commitSubject === subject)
+            .map(([commit]) => commit))];
+        if (candidates.length === 0) {
+            return undefined;
+        }
+        // The reflog also has the commits from before the rewrite; only a reachable one replaced it.
+        const states = await this.getCommitStates(cwd, candidates);
+        return candidates.find(candidate => states.get(candidate) === 'reachable');
+    }
+}
+
+export const gitService = new GitService();
@@ -0,0 +1,19 @@
+import * as vscode from 'vscode';
+
+// The query of the `git:` URIs of VS Code's git extension.
+export interface GitUriQuery {
+    path: string;
+    ref: string;
+}
+
+export const toGitUri = (fileUri: vscode.Uri, ref: string): vscode.Uri =>
+    fileUri.with({ scheme: 'git', query: JSON.stringify({ path: fileUri.fsPath, ref }) });
+
+export function parseGitUri(uri: vscode.Uri): GitUriQuery | undefined {
+    try {
+        const query = JSON.parse(uri.query);
+        return typeof query.path === 'string' ? { path: query.path, ref: typeof query.ref === 'string' ? query.ref : 'HEAD' } : undefined;
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,62 @@
+import { CommentReply, Severity } from '../Comment';
+import { isObject } from '../storage/schema';
+
+// A review comment read from another tool, before it is placed in a workspace folder.
+export interface ImportedComment {
+    // Path relative to the root of the repository, or an absolute path.
+    path: string;
+    lineNumber: number;
+    endLineNumber?: number;
+    startColumn?: number;
+    endColumn?: number;
+    hash?: string;
+    parentHash?: string;
+    content: string;
+    author?: string;
+    createdAt?: string;
+    completed?: boolean;
+    severity?: Severity;
+    category?: string;
+    tags?: string[];
+    replies?: Omit<CommentReply, 'id'>[];
+}
+
+export interface ParsedImport {
+    comments: ImportedComment[];
+    // Why entries that can't be placed on the code were left out.
+    skipped: string[];
+}
+
+export interface ReviewImporter {
+    id: string;
+    label: string;
+    // Whether the parsed file looks like this importer's format.
+    detect(data: unknown): boolean;
+    parse(data: unknown): ParsedImport;
+}
+
+// Narrowing for the untyped JSON of an imported file: anything of the wrong type reads as missing.
+export const asObject = (value: unknown): Record<string, unknown> => isObject(value) ? value : {};
+
+export const asList = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+export const asString = (value: unknown): string | undefined => typeof value === 'string' ? value : undefined;
+
+/**
+ * Turns a path or `file:` URI into a path with forward slashes. `file:///C:/src` becomes
+ * `C:/src`; anything but a string becomes an empty path, which fails validation later.
+ */
+export function normalizePath(path: unknown): string {
+    if (typeof path !== 'string') {
+        return '';
+    }
+    const withoutScheme = /^file:/i.test(path)
+        ? path.replace(/^file:(\/\/[^/]*)?/i, '').replace(/^\/([A-Za-z]:)/, '$1')
+        : path;
+    return withoutScheme.replace(/\\/g, '/').replace(/^\.\//, '');
+}
+
+export const isAbsolutePath = (path: string): boolean => /^(\/|[A-Za-z]:\/)/.test(path);
+
+export const toPositiveLine = (value: unknown): number | undefined =>
+    typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined;
@@ -0,0 +1,73 @@
+import { ImportedComment, ParsedImport, ReviewImporter, asList, asObject, asString, normalizePath, toPositiveLine } from './ReviewImporter';
+
+// The comments of a dump, which is either the list itself or an object that holds it.
+const getComments = (data: unknown): unknown[] => Array.isArray(data) ? data : asList(asObject(data).comments);
+
+const isReply = (comment: Record<string, unknown>): boolean => comment.in_reply_to_id !== undefined && comment.in_reply_to_id !== null;
+
+/**
+ * `GET /repos/{owner}/{repo}/pulls/{pull_number}/comments`, or a "create a review" request body.
+ * Comments on the `LEFT` side count their lines in the base of the pull request, which GitHub
+ * doesn't record in the comments; an object around them with the pull request's `base.sha`
+ * (from `GET /repos/{owner}/{repo}/pulls/{pull_number}`) places them, and the others are skipped.
+ */
+export const githubImporter: ReviewImporter = {
+    id: 'github',
+    label: 'GitHub pull request review comments',
+    detect(data) {
+        const comments = getComments(data);
+        return comments.length > 0 && comments.every(c => typeof asObject(c).path === 'string' && typeof asObject(c).body === 'string');
+    },
+    parse(data) {
+        const wrapper = Array.isArray(data) ? {} : asObject(data);
+        const comments = getComments(data).map(asObject);
+        const reviewCommit = asString(wrapper.commit_id);
+        const baseCommit = asString(asObject(wrapper.base).sha);
+        const imported = new Map<unknown, ImportedComment>();
+        const result: ParsedImport = { comments: [], skipped: [] };
+
+        comments.filter(c => !isReply(c)).forEach(c => {
+            // Comments on code that has since changed only keep their original position.
+            const current = toPositiveLine(c.line);
+            const line = current ?? toPositiveLine(c.original_line);
+            const path = normalizePath(c.path);
+            const body = asString(c.body);
+            if (line === undefined || body === undefined) {
+                return;
+            }
+            const onBaseSide = c.side === 'LEFT';
+            if (onBaseSide && baseCommit === undefined) {
+                result.skipped.push(`${path}:${line}: on the base side of the diff, whose commit the export doesn't name`);
+                return;
+            }
+            // A range that starts on the other side of the diff can only keep its last line.
+            const startLine = (c.start_side ?? c.side) === c.side
+                ? current !== undefined ? toPositiveLine(c.start_line) : toPositiveLine(c.original_start_line)
+                : undefined;
+            const comment: ImportedComment = {
+                path,
+                lineNumber: startLine ?? line,
+                endLineNumber: startLine !== undefined ? line : undefined,
+                hash: onBaseSide ? baseCommit : asString(current !== undefined ? c.commit_id : c.original_commit_id) ?? reviewCommit,
+                parentHash: onBaseSide ? undefined : baseCommit,
+                content: body,
+                author: asString(asObject(c.user).login),
+                createdAt: asString(c.created_at)
+            };
+            imported.set(c.id ?? comment, comment);
+            result.comments.push(comment);
+        });
+
+        comments.filter(isReply).forEach(c => {
+            const parent = imported.get(c.in_reply_to_id);
+            if (parent) {
+                parent.replies = [...(parent.replies ?? []), {
+                    author: asString(asObject(c.user).login) ?? 'unknown',
+                    body: asString(c.body) ?? '',
+                    createdAt: asString(c.created_at) ?? new Date().toISOString()
+                }];
+            }
+        });
+        return result;
+    }
+};
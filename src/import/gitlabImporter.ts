@@ -0,0 +1,57 @@
+import { ImportedComment, ReviewImporter, asList, asObject, asString, normalizePath, toPositiveLine } from './ReviewImporter';
+
+const authorOf = (note: Record<string, unknown>): string => {
+    const author = asObject(note.author);
+    return asString(author.username) ?? asString(author.name) ?? 'unknown';
+};
+
+// `GET /projects/:id/merge_requests/:merge_request_iid/discussions`
+export const gitlabImporter: ReviewImporter = {
+    id: 'gitlab',
+    label: 'GitLab merge request discussions',
+    detect(data) {
+        return Array.isArray(data) && data.length > 0 && data.every(d => Array.isArray(asObject(d).notes));
+    },
+    parse(data) {
+        const result: ImportedComment[] = [];
+        asList(data).forEach(discussion => {
+            const notes = asList(asObject(discussion).notes).map(asObject).filter(note => !note.system);
+            const [first, ...replies] = notes;
+            const position = first && asObject(first.position);
+            const body = first && asString(first.body);
+            if (!position || body === undefined) {
+                // General merge request discussions aren't attached to any code.
+                return;
+            }
+            const newLine = toPositiveLine(position.new_line);
+            const oldLine = toPositiveLine(position.old_line);
+            const line = newLine ?? oldLine;
+            if (line === undefined) {
+                return;
+            }
+            const rangeStart = asObject(asObject(position.line_range).start);
+            const startLine = toPositiveLine(rangeStart.new_line ?? rangeStart.old_line);
+            // Lines that only exist on the old side are located in the base revision.
+            const onOldSide = newLine === undefined;
+            const oldPath = asString(position.old_path);
+            const newPath = asString(position.new_path);
+            result.push({
+                path: normalizePath(onOldSide ? oldPath ?? newPath : newPath ?? oldPath),
+                lineNumber: startLine !== undefined && startLine < line ? startLine : line,
+                endLineNumber: startLine !== undefined && startLine < line ? line : undefined,
+                hash: asString(onOldSide ? position.base_sha : position.head_sha),
+                parentHash: onOldSide ? undefined : asString(position.base_sha),
+                content: body,
+                author: authorOf(first),
+                createdAt: asString(first.created_at),
+                completed: !!first.resolved,
+                replies: replies.map(note => ({
+                    author: authorOf(note),
+                    body: asString(note.body) ?? '',
+                    createdAt: asString(note.created_at) ?? new Date().toISOString()
+                }))
+            });
+        });
+        return { comments: result, skipped: [] };
+    }
+};
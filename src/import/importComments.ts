@@ -0,0 +1,190 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { Comment } from '../Comment';
+import { CommentManager } from '../CommentManager';
+import { createAnchor } from '../anchoring';
+import { gitService } from '../git/GitService';
+import { validateComment } from '../storage/schema';
+import { formatTimestampWithTimezone } from '../utils/time';
+import { pickWorkspaceFolder } from '../utils/workspace';
+import { ParsedImport, ReviewImporter, importers } from './index';
+import { isAbsolutePath } from './ReviewImporter';
+
+const MAX_REPORTED_PROBLEMS = 3;
+
+const toTimestamp = (value: string | undefined): string => {
+    const date = value ? new Date(value) : new Date();
+    return formatTimestampWithTimezone(isNaN(date.getTime()) ? new Date() : date);
+};
+
+// Existing comments may have been re-anchored since they were imported, so also compare their original line.
+const isDuplicate = (a: Comment, b: Comment): boolean =>
+    a.workspaceFolder === b.workspaceFolder
+    && a.fileName === b.fileName
+    && a.content.trim() === b.content.trim()
+    && (a.lineNumber === b.lineNumber
+        || (a.hash === b.hash && a.anchor?.baseLineNumber !== undefined && a.anchor.baseLineNumber === b.anchor?.baseLineNumber));
+
+// Revisions come from the imported file, so never let one be read as a command line option.
+const isSafeRevision = (revision: unknown): revision is string => typeof revision === 'string' && /^\w[\w./~^-]*$/.test(revision);
+
+// An absolute path relative to the repository root, or undefined when it's outside of it.
+function toRepositoryPath(absolutePath: string, root: string): string | undefined {
+    const relativeTo = (candidate: string) => {
+        const relative = path.relative(root, candidate);
+        return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative.split(path.sep).join('/') : undefined;
+    };
+    const resolved = path.resolve(absolutePath);
+    // `git rev-parse --show-toplevel` resolves symbolic links, so the path may need resolving too.
+    return relativeTo(resolved) ?? (fs.existsSync(resolved) ? relativeTo(fs.realpathSync(resolved)) : undefined);
+}
+
+export async function importComments(commentManager: CommentManager): Promise<boolean> {
+    const [file] = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        openLabel: 'Import',
+        filters: { 'Review exports': ['json', 'sarif'], 'All files': ['*'] }
+    }) ?? [];
+    if (!file) {
+        return false;
+    }
+
+    let data: unknown;
+    try {
+        data = JSON.parse(fs.readFileSync(file.fsPath, 'utf8'));
+    } catch (error) {
+        vscode.window.showErrorMessage(`Could not read ${vscode.workspace.asRelativePath(file)} as JSON: ${(error as Error).message}`);
+        return false;
+    }
+
+    let importer: ReviewImporter | undefined = importers.find(candidate => candidate.detect(data));
+    if (!importer) {
+        const picked = await vscode.window.showQuickPick(
+            importers.map(candidate => ({ label: candidate.label, importer: candidate })),
+            { placeHolder: 'The file format was not recognised. Which format is it?' }
+        );
+        importer = picked?.importer;
+    }
+    if (!importer) {
+        return false;
+    }
+
+    let parsed: ParsedImport;
+    try {
+        parsed = importer.parse(data);
+    } catch (error) {
+        vscode.window.showErrorMessage(`The file is not a valid ${importer.label} export: ${(error as Error).message}`);
+        return false;
+    }
+
+    const folder = await pickWorkspaceFolder(commentManager, 'Which workspace folder do the imported comments belong to?');
+    if (!folder) {
+        return false;
+    }
+    const cwd = folder.uri.fsPath;
+    // Imported paths are relative to the repository root, comments to the workspace folder.
+    const prefix = (await gitService.tryExec(['rev-parse', '--show-prefix'], cwd))?.trim() ?? '';
+    // Without a repository, the workspace folder stands in for its root.
+    const root = (await gitService.tryExec(['rev-parse', '--show-toplevel'], cwd))?.trim() || cwd;
+    const head = (await gitService.tryExec(['rev-parse', 'HEAD'], cwd))?.trim() ?? '';
+    const parents = new Map<string, string>();
+
+    const existing = commentManager.getComments();
+    const imported: Comment[] = [];
+    // Entries the importer couldn't place on the code count as problems too.
+    const problems: string[] = [...parsed.skipped];
+    let duplicates = 0;
+    let outside = 0;
+    for (const [index, entry] of parsed.comments.entries()) {
+        // Linters often report absolute paths, which must be inside the repository.
+        const repositoryPath = isAbsolutePath(entry.path) ? toRepositoryPath(entry.path, root) : entry.path;
+        if (repositoryPath === undefined || !repositoryPath.startsWith(prefix)) {
+            outside++;
+            continue;
+        }
+        const fileName = repositoryPath.substring(prefix.length);
+        const hash = isSafeRevision(entry.hash) ? entry.hash : head;
+        if (!parents.has(hash)) {
+            parents.set(hash, await gitService.getParent(cwd, hash));
+        }
+        // The imported line refers to the file at `hash`; fall back to the working tree.
+        const atHash = hash && fileName ? await gitService.tryExec(['show', `${hash}:${repositoryPath}`], cwd) : undefined;
+        const workingTreePath = vscode.Uri.joinPath(folder.uri, ...fileName.split('/')).fsPath;
+        const source = atHash ?? (fs.existsSync(workingTreePath) ? fs.readFileSync(workingTreePath, 'utf8') : undefined);
+
+        const comment: Comment = {
+            id: uuidv4(),
+            content: entry.content,
+            workspaceFolder: folder.name,
+            fileName,
+            lineNumber: entry.lineNumber,
+            hash,
+            parentHash: isSafeRevision(entry.parentHash) ? entry.parentHash : parents.get(hash) ?? '',
+            createdAt: toTimestamp(entry.createdAt),
+            completed: entry.completed ?? false
+        };
+        if (entry.endLineNumber !== undefined) {
+            comment.endLineNumber = entry.endLineNumber;
+        }
+        if (entry.startColumn !== undefined && entry.endColumn !== undefined) {
+            comment.startColumn = entry.startColumn;
+            comment.endColumn = entry.endColumn;
+        }
+        if (entry.author) {
+            comment.author = entry.author;
+        }
+        if (entry.severity) {
+            comment.severity = entry.severity;
+        }
+        if (entry.category) {
+            comment.category = entry.category;
+        }
+        if (entry.tags?.length) {
+            comment.tags = entry.tags;
+        }
+        if (Array.isArray(entry.replies) && entry.replies.length > 0) {
+            // Only the fields of a reply are taken over, the rest of the imported object is dropped.
+            comment.replies = entry.replies.map(reply => ({
+                id: uuidv4(),
+                author: reply?.author,
+                ...(reply?.authorEmail !== undefined ? { authorEmail: reply.authorEmail } : {}),
+                body: reply?.body,
+                createdAt: toTimestamp(reply?.createdAt)
+            }));
+        }
+
+        // The imported file can hold anything, so it gets the same checks as the comments file.
+        const errors = validateComment(comment);
+        if (errors.length > 0) {
+            problems.push(`entry ${index + 1}${fileName ? ` (${fileName}:${entry.lineNumber})` : ''}: ${errors.join(', ')}`);
+            continue;
+        }
+        if (source !== undefined) {
+            comment.anchor = createAnchor(source.split(/\r?\n/), entry.lineNumber, atHash !== undefined ? entry.lineNumber : undefined);
+        }
+
+        if ([...existing, ...imported].some(other => isDuplicate(other, comment))) {
+            duplicates++;
+            continue;
+        }
+        imported.push(comment);
+    }
+
+    commentManager.addComments(imported);
+    // Imported lines refer to the exported revision; move them onto the working tree.
+    await commentManager.reanchorComments();
+
+    const skippedMessage = [
+        duplicates > 0 ? ` Skipped ${duplicates} duplicate entries.` : '',
+        outside > 0 ? ` Skipped ${outside} entries outside of ${folder.name}.` : ''
+    ].join('');
+    vscode.window.showInformationMessage(`Imported ${imported.length} comments from ${importer.label}.${skippedMessage}`);
+    if (problems.length > 0) {
+        console.warn(`Entries not imported from ${importer.label}:\n${problems.join('\n')}`);
+        const more = problems.length > MAX_REPORTED_PROBLEMS ? ` (and ${problems.length - MAX_REPORTED_PROBLEMS} more)` : '';
+        vscode.window.showWarningMessage(`Could not import ${problems.length} entries: ${problems.slice(0, MAX_REPORTED_PROBLEMS).join('; ')}${more}.`);
+    }
+    return imported.length > 0;
+}
@@ -0,0 +1,13 @@
+import { ReviewImporter } from './ReviewImporter';
+import { githubImporter } from './githubImporter';
+import { gitlabImporter } from './gitlabImporter';
+import { sarifImporter } from './sarifImporter';
+
+export * from './ReviewImporter';
+
+// New formats only need to implement ReviewImporter and be listed here.
+export const importers: ReviewImporter[] = [
+    sarifImporter,
+    gitlabImporter,
+    githubImporter
+];
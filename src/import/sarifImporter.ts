@@ -0,0 +1,107 @@
+import { Severity, isSeverity } from '../Comment';
+import { SARIF_RULE_ID } from '../export/sarifExporter';
+import { isObject } from '../storage/schema';
+import { ImportedComment, ReviewImporter, asList, asObject, asString, normalizePath, toPositiveLine } from './ReviewImporter';
+
+// Findings from other tools only carry a level.
+const LEVEL_SEVERITIES: Record<string, Severity> = {
+    error: 'blocker',
+    warning: 'major',
+    note: 'minor'
+};
+
+const decodeUri = (uri: string): string => {
+    try {
+        return decodeURIComponent(uri);
+    } catch {
+        return uri;
+    }
+};
+
+/**
+ * Resolves an artifact location against the run's `originalUriBaseIds`, which may refer to
+ * further base ids. Locations relative to an unknown base id, like `%SRCROOT%` without a
+ * definition, are taken to be relative to the repository root.
+ */
+function resolveArtifactUri(location: unknown, baseIds: unknown): string | undefined {
+    let uri = asString(asObject(location).uri);
+    if (uri === undefined) {
+        return undefined;
+    }
+    let baseId: unknown = asObject(location).uriBaseId;
+    const seen = new Set<unknown>();
+    while (typeof baseId === 'string' && !seen.has(baseId) && !/^[a-z][\w+.-]*:/i.test(uri)) {
+        seen.add(baseId);
+        const base = asObject(asObject(baseIds)[baseId]);
+        const baseUri = asString(base.uri);
+        if (baseUri === undefined) {
+            break;
+        }
+        uri = baseUri.endsWith('/') ? `${baseUri}${uri}` : `${baseUri}/${uri}`;
+        baseId = base.uriBaseId;
+    }
+    return normalizePath(decodeUri(uri));
+}
+
+// Replies as written by this extension's SARIF export.
+const toReplies = (value: unknown): ImportedComment['replies'] =>
+    Array.isArray(value) ? value.filter(isObject).map(reply => ({
+        author: asString(reply.author) ?? 'unknown',
+        ...(typeof reply.authorEmail === 'string' ? { authorEmail: reply.authorEmail } : {}),
+        body: asString(reply.body) ?? '',
+        createdAt: asString(reply.createdAt) ?? new Date().toISOString()
+    })) : undefined;
+
+// SARIF 2.1 logs, from linters or from this extension's own SARIF export.
+export const sarifImporter: ReviewImporter = {
+    id: 'sarif',
+    label: 'SARIF 2.1',
+    detect(data) {
+        const log = asObject(data);
+        return typeof log.version === 'string' && log.version.startsWith('2.1') && Array.isArray(log.runs);
+    },
+    parse(data) {
+        const result: ImportedComment[] = [];
+        asList(asObject(data).runs).map(asObject).forEach(run => {
+            const toolName = asString(asObject(asObject(run.tool).driver).name);
+            const revision = asString(asObject(asList(run.versionControlProvenance)[0]).revisionId) ?? asString(asObject(run.properties).headCommit);
+            asList(run.results).map(asObject).forEach(sarifResult => {
+                const location = asObject(asObject(asList(sarifResult.locations)[0]).physicalLocation);
+                const region = asObject(location.region);
+                const path = resolveArtifactUri(location.artifactLocation, run.originalUriBaseIds);
+                const startLine = toPositiveLine(region.startLine);
+                const message = asObject(sarifResult.message);
+                const text = asString(message.text) ?? asString(message.markdown);
+                if (!path || startLine === undefined || text === undefined) {
+                    return;
+                }
+                const endLine = toPositiveLine(region.endLine);
+                const startColumn = toPositiveLine(region.startColumn);
+                const endColumn = toPositiveLine(region.endColumn);
+                const properties = asObject(sarifResult.properties);
+                const ruleId = asString(sarifResult.ruleId);
+                const ownResult = ruleId === SARIF_RULE_ID;
+                result.push({
+                    path,
+                    lineNumber: startLine,
+                    endLineNumber: endLine !== undefined && endLine > startLine ? endLine : undefined,
+                    // Columns only make sense as a pair.
+                    startColumn: startColumn !== undefined && endColumn !== undefined ? startColumn : undefined,
+                    endColumn: startColumn !== undefined && endColumn !== undefined ? endColumn : undefined,
+                    hash: revision,
+                    content: ownResult || !ruleId ? text : `[${ruleId}] ${text}`,
+                    author: asString(properties.author) ?? (ownResult ? undefined : toolName),
+                    createdAt: asString(properties.createdAt),
+                    severity: isSeverity(properties.severity) ? properties.severity : ownResult ? undefined : LEVEL_SEVERITIES[asString(sarifResult.level) ?? 'warning'],
+                    category: asString(properties.category),
+                    tags: Array.isArray(properties.tags) ? properties.tags.filter((tag): tag is string => typeof tag === 'string') : undefined,
+                    completed: typeof properties.completed === 'boolean'
+                        ? properties.completed
+                        : asList(sarifResult.suppressions).length > 0,
+                    replies: toReplies(properties.replies)
+                });
+            });
+        });
+        return { comments: result, skipped: [] };
+    }
+};
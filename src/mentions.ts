@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { Comment } from './Comment';
+import { CommentManager } from './CommentManager';
+import { getAssignees, mentionHandle } from './comments';
+import { Contributor, gitService } from './git/GitService';
+
+// The `@name` being typed just before the cursor.
+const PARTIAL_MENTION = /(?<![\w.@])@[\w.+-]*$/;
+
+interface Mentionable extends Contributor {
+    handle: string;
+}
+
+// The authors of the workspace folders' history, most commits first, one per handle.
+async function getMentionables(commentManager: CommentManager): Promise<Mentionable[]> {
+    const contributors = (await Promise.all(commentManager.getWorkspaceFolders().map(folder => gitService.getContributors(folder.uri.fsPath)))).flat();
+    const byHandle = new Map<string, Mentionable>();
+    contributors.forEach(contributor => {
+        const handle = mentionHandle(contributor);
+        const known = byHandle.get(handle.toLowerCase());
+        byHandle.set(handle.toLowerCase(), { ...contributor, handle, commits: contributor.commits + (known?.commits ?? 0) });
+    });
+    return [...byHandle.values()].sort((a, b) => b.commits - a.commits);
+}
+
+const describe = (contributor: Contributor): string => contributor.email ? `${contributor.name} <${contributor.email}>` : contributor.name;
+
+// Completes `@mentions` in comment and reply boxes with the authors from `git shortlog`.
+export class MentionCompletionProvider implements vscode.CompletionItemProvider {
+    constructor(private readonly commentManager: CommentManager) { }
+
+    async provideCompletionItems(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.CompletionItem[]> {
+        const partial = document.lineAt(position.line).text.substring(0, position.character).match(PARTIAL_MENTION);
+        if (!partial) {
+            return [];
+        }
+        const range = new vscode.Range(position.translate(0, -partial[0].length), position);
+        const mentionables = await getMentionables(this.commentManager);
+        return mentionables.map((mentionable, index) => {
+            const item = new vscode.CompletionItem({ label: `@${mentionable.handle}`, description: describe(mentionable) }, vscode.CompletionItemKind.User);
+            item.range = range;
+            item.insertText = `@${mentionable.handle} `;
+            item.filterText = `@${mentionable.handle} ${mentionable.name} ${mentionable.email ?? ''}`;
+            item.sortText = index.toString().padStart(5, '0');
+            item.detail = `${mentionable.commits} ${mentionable.commits === 1 ? 'commit' : 'commits'}`;
+            return item;
+        });
+    }
+}
+
+/**
+ * Lets the user pick people to assign a comment to and returns the comment text with them
+ * mentioned at the end, or undefined when cancelled.
+ */
+export async function pickAssignees(commentManager: CommentManager, comment: Comment): Promise<string | undefined> {
+    const assigned = new Set(getAssignees(comment).map(assignee => assignee.toLowerCase()));
+    const mentionables = (await getMentionables(commentManager)).filter(mentionable => !assigned.has(mentionable.handle.toLowerCase()));
+    if (mentionables.length === 0) {
+        vscode.window.showInformationMessage('Everyone in the git history is already assigned to this comment.');
+        return undefined;
+    }
+    const picked = await vscode.window.showQuickPick(
+        mentionables.map(mentionable => ({ label: `@${mentionable.handle}`, description: describe(mentionable) })),
+        { canPickMany: true, placeHolder: 'Assign the comment to', matchOnDescription: true }
+    );
+    if (!picked || picked.length === 0) {
+        return undefined;
+    }
+    return `${comment.content.trimEnd()} ${picked.map(item => item.label).join(' ')}`;
+}
+
+/**
+ * Asks for the text of a comment, offering the authors from `git shortlog` in a quick pick
+ * whenever `@` is typed, since input boxes have no completion. Returns undefined when cancelled.
+ */
+export function promptComment(commentManager: CommentManager, options: { prompt: string; value?: string }): Promise<string | undefined> {
+    const mentionables = getMentionables(commentManager);
+    return new Promise(resolve => {
+        const input = vscode.window.createInputBox();
+        input.prompt = `${options.prompt} (type @ to mention someone)`;
+        input.value = options.value ?? '';
+        // Showing the quick pick hides the input box, which must not count as cancelling it.
+        let picking = false;
+        const finish = (text: string | undefined) => {
+            input.dispose();
+            resolve(text);
+        };
+        input.onDidAccept(() => finish(input.value));
+        input.onDidHide(() => {
+            if (!picking) {
+                finish(undefined);
+            }
+        });
+        input.onDidChangeValue(async value => {
+            if (picking || value.match(PARTIAL_MENTION)?.[0] !== '@') {
+                return;
+            }
+            const candidates = await mentionables;
+            if (candidates.length === 0 || input.value !== value) {
+                return;
+            }
+            picking = true;
+            const picked = await vscode.window.showQuickPick(
+                candidates.map(mentionable => ({ label: `@${mentionable.handle}`, description: describe(mentionable) })),
+                { placeHolder: 'Mention someone, or press Escape to type on', matchOnDescription: true }
+            );
+            picking = false;
+            if (picked) {
+                input.value = `${value.slice(0, -1)}${picked.label} `;
+            }
+            input.show();
+        });
+        input.show();
+    });
+}
@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { CommentManager } from './CommentManager';
+import { Review, ReviewFile, VERDICTS, VERDICT_LABELS, countUncheckedItems, describeReview } from './Review';
+import { pickChecklists } from './checklists';
+import { gitService } from './git/GitService';
+import { getCurrentAuthor } from './utils/author';
+import { formatTimestampWithTimezone } from './utils/time';
+import { pickWorkspaceFolder } from './utils/workspace';
+
+// Blob recorded for files that don't exist in the working tree, e.g. deleted ones.
+const MISSING_BLOB = 'missing';
+
+/**
+ * The files changed between two commits, relative to the folder and limited to it. Files keep
+ * the viewed state they had in `previous`, e.g. when the head of a review moved.
+ */
+export async function getChangedFiles(cwd: string, baseHash: string, headHash: string, previous: ReviewFile[] = []): Promise<ReviewFile[]> {
+    const output = await gitService.exec(['diff', '--name-status', '-z', '--relative', '-M', '--no-ext-diff', baseHash, headHash], cwd);
+    const fields = output.split('\0');
+    const files: ReviewFile[] = [];
+    for (let i = 0; i + 1 < fields.length;) {
+        const status = fields[i++].charAt(0);
+        const file: ReviewFile = { fileName: '', status };
+        if (status === 'R' || status === 'C') {
+            file.originalFileName = fields[i++];
+        }
+        file.fileName = fields[i++];
+        const viewedBlob = previous.find(other => other.fileName === file.fileName)?.viewedBlob;
+        if (viewedBlob) {
+            file.viewedBlob = viewedBlob;
+        }
+        files.push(file);
+    }
+    return files.sort((a, b) => a.fileName.localeCompare(b.fileName));
+}
+
+// The blob each file has in the working tree right now, to tell whether it changed since it was viewed.
+export async function getCurrentBlobs(cwd: string, fileNames: string[]): Promise<Map<string, string>> {
+    const blobs = new Map<string, string>(fileNames.map(fileName => [fileName, MISSING_BLOB]));
+    const existing = fileNames.filter(fileName => fs.existsSync(path.join(cwd, fileName)));
+    if (existing.length > 0) {
+        // Git reads the paths relative to the repository root rather than `cwd`, so pass absolute ones.
+        const paths = existing.map(fileName => path.join(cwd, fileName));
+        const output = await gitService.exec(['hash-object', '--stdin-paths'], cwd, `${paths.join('\n')}\n`);
+        output.split('\n').filter(Boolean).forEach((blob, index) => blobs.set(existing[index], blob));
+    }
+    return blobs;
+}
+
+/**
+ * Asks for the base and head of a review and collects the files changed on the head since it
+ * branched off the base. Returns undefined when cancelled or nothing changed.
+ */
+export async function startReview(commentManager: CommentManager): Promise<Review | undefined> {
+    const folder = await pickWorkspaceFolder(commentManager, 'Which workspace folder do you want to review?');
+    if (!folder) {
+        return undefined;
+    }
+    const cwd = folder.uri.fsPath;
+    // Without a remote default branch, review the last commit.
+    const defaultBase = (await gitService.tryExec(['rev-parse', '--abbrev-ref', 'origin/HEAD'], cwd))?.trim() || 'HEAD~1';
+
+    const baseRef = (await vscode.window.showInputBox({ prompt: 'Base of the review, e.g. main or a commit hash', value: defaultBase }))?.trim();
+    if (!baseRef) {
+        return undefined;
+    }
+    const headRef = (await vscode.window.showInputBox({ prompt: 'Head of the review, e.g. a feature branch', value: 'HEAD' }))?.trim();
+    if (!headRef) {
+        return undefined;
+    }
+
+    const base = await gitService.resolveCommit(cwd, baseRef);
+    const headHash = await gitService.resolveCommit(cwd, headRef);
+    if (!base || !headHash) {
+        vscode.window.showErrorMessage(`"${!base ? baseRef : headRef}" is not a commit in ${folder.name}.`);
+        return undefined;
+    }
+    // Unrelated histories have no merge base; compare the commits directly.
+    const baseHash = (await gitService.tryExec(['merge-base', base, headHash], cwd))?.trim() || base;
+
+    const files = await getChangedFiles(cwd, baseHash, headHash);
+    if (files.length === 0) {
+        vscode.window.showInformationMessage(`No files changed between ${baseRef} and ${headRef}.`);
+        return undefined;
+    }
+    const checklists = await pickChecklists(folder);
+    if (!checklists) {
+        return undefined;
+    }
+    return {
+        id: uuidv4(),
+        workspaceFolder: folder.name,
+        baseRef,
+        headRef,
+        baseHash,
+        headHash,
+        createdAt: formatTimestampWithTimezone(new Date()),
+        author: getCurrentAuthor(cwd),
+        files,
+        ...(checklists.length > 0 ? { checklists } : {})
+    };
+}
+
+/**
+ * Picks up new commits on the head of a review. Returns true when the review changed; files
+ * that are still part of it keep their viewed state.
+ */
+export async function updateReviewHead(commentManager: CommentManager, review: Review): Promise<boolean> {
+    const folder = commentManager.getWorkspaceFolder(review.workspaceFolder);
+    const headHash = folder ? await gitService.resolveCommit(folder.uri.fsPath, review.headRef) : undefined;
+    if (!folder || !headHash || headHash === review.headHash) {
+        return false;
+    }
+    review.files = await getChangedFiles(folder.uri.fsPath, review.baseHash, headHash, review.files);
+    review.headHash = headHash;
+    commentManager.updateReview(review);
+    return true;
+}
+
+// Records the verdict and summary of a review. Returns false when cancelled.
+export async function finishReview(commentManager: CommentManager, review: Review): Promise<boolean> {
+    const comments = commentManager.getComments().filter(comment => comment.reviewId === review.id);
+    const open = comments.filter(comment => !comment.completed).length;
+    const unchecked = countUncheckedItems(review);
+    const uncheckedLabel = unchecked > 0 ? `, ${unchecked} checklist ${unchecked === 1 ? 'item' : 'items'} not ticked off` : '';
+    const picked = await vscode.window.showQuickPick(
+        VERDICTS.map(verdict => ({ label: VERDICT_LABELS[verdict], verdict })),
+        { placeHolder: `Finish the review of ${describeReview(review)} (${comments.length} comments, ${open} open${uncheckedLabel})` }
+    );
+    if (!picked) {
+        return false;
+    }
+    const summary = await vscode.window.showInputBox({ prompt: 'Summary of the review (optional)' });
+    if (summary === undefined) {
+        return false;
+    }
+    review.verdict = picked.verdict;
+    review.finishedAt = formatTimestampWithTimezone(new Date());
+    if (summary.trim()) {
+        review.summary = summary.trim();
+    }
+    commentManager.updateReview(review);
+    return true;
+}
@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+import { Comment, Severity } from './Comment';
+
+interface SeverityInfo {
+    label: string;
+    description: string;
+    icon: string;
+    color: string;
+    diagnosticSeverity: vscode.DiagnosticSeverity;
+}
+
+export const SEVERITY_INFO: Record<Severity, SeverityInfo> = {
+    blocker: { label: 'Blocker', description: 'Must be fixed before merging', icon: 'error', color: 'charts.red', diagnosticSeverity: vscode.DiagnosticSeverity.Error },
+    major: { label: 'Major', description: 'Should be fixed', icon: 'warning', color: 'charts.orange', diagnosticSeverity: vscode.DiagnosticSeverity.Warning },
+    minor: { label: 'Minor', description: 'Worth fixing', icon: 'info', color: 'charts.yellow', diagnosticSeverity: vscode.DiagnosticSeverity.Information },
+    nit: { label: 'Nit', description: 'Optional polish', icon: 'comment', color: 'charts.blue', diagnosticSeverity: vscode.DiagnosticSeverity.Information },
+    question: { label: 'Question', description: 'Needs an answer, not necessarily a change', icon: 'question', color: 'charts.purple', diagnosticSeverity: vscode.DiagnosticSeverity.Hint },
+    praise: { label: 'Praise', description: 'Nothing to change', icon: 'heart', color: 'charts.green', diagnosticSeverity: vscode.DiagnosticSeverity.Hint }
+};
+
+export const getGutterIconPath = (severity: Severity): string => `resources/severity/comment-${severity}.svg`;
+
+export function getCommentIcon(comment: Comment): vscode.ThemeIcon {
+    if (comment.completed) {
+        return new vscode.ThemeIcon('check');
+    }
+    if (comment.outdated) {
+        return new vscode.ThemeIcon('history');
+    }
+    if (comment.severity) {
+        const info = SEVERITY_INFO[comment.severity];
+        return new vscode.ThemeIcon(info.icon, new vscode.ThemeColor(info.color));
+    }
+    return new vscode.ThemeIcon('comment');
+}
+
+// Label used in descriptions and hovers, e.g. "Blocker · security, naming".
+export function describeClassification(comment: Comment): string {
+    const parts: string[] = [];
+    if (comment.severity) {
+        parts.push(SEVERITY_INFO[comment.severity].label);
+    }
+    if (comment.category) {
+        parts.push(comment.category);
+    }
+    if (comment.tags?.length) {
+        parts.push(comment.tags.map(tag => `#${tag}`).join(' '));
+    }
+    return parts.join(' · ');
+}
+
+export type Classification = Pick<Comment, 'severity' | 'category' | 'tags'>;
+
+export const parseTags = (value: string): string[] =>
+    [...new Set(value.split(/[,\s]+/).map(tag => tag.replace(/^#/, '').trim()).filter(Boolean))];
+
+/**
+ * Asks for a severity, a category (only when categories are configured) and tags.
+ * Returns undefined when any of the prompts is cancelled.
+ */
+export async function pickClassification(current: Classification = {}): Promise<Classification | undefined> {
+    const severityPick = await vscode.window.showQuickPick([
+        ...(Object.keys(SEVERITY_INFO) as Severity[]).map(severity => ({
+            label: `$(${SEVERITY_INFO[severity].icon}) ${SEVERITY_INFO[severity].label}`,
+            description: SEVERITY_INFO[severity].description,
+            picked: severity === current.severity,
+            severity: severity as Severity | undefined
+        })),
+        { label: '$(circle-slash) No severity', description: '', picked: !current.severity, severity: undefined }
+    ], { placeHolder: 'Severity of the comment' });
+    if (!severityPick) {
+        return undefined;
+    }
+
+    let category = current.category;
+    const categories = vscode.workspace.getConfiguration('code-review-comments').get<string[]>('categories', []);
+    if (categories.length > 0) {
+        const categoryPick = await vscode.window.showQuickPick(
+            [...categories.map(label => ({ label, category: label as string | undefined })), { label: 'No category', category: undefined }],
+            { placeHolder: 'Category of the comment' }
+        );
+        if (!categoryPick) {
+            return undefined;
+        }
+        category = categoryPick.category;
+    }
+
+    const tags = await vscode.window.showInputBox({
+        prompt: 'Tags, separated by commas or spaces (optional)',
+        placeHolder: 'e.g. security, naming',
+        value: current.tags?.join(', ') ?? ''
+    });
+    if (tags === undefined) {
+        return undefined;
+    }
+
+    const classification: Classification = {};
+    if (severityPick.severity) {
+        classification.severity = severityPick.severity;
+    }
+    if (category) {
+        classification.category = category;
+    }
+    const parsedTags = parseTags(tags);
+    if (parsedTags.length > 0) {
+        classification.tags = parsedTags;
+    }
+    return classification;
+}
@@ -0,0 +1,242 @@
+import { Comment, Severity, getEndLineNumber } from './Comment';
+import { CommentSummary, getCommentStatus, summarizeComments } from './comments';
+
+// Statistics of review health for the dashboard, computed without VS Code.
+
+const DAY = 24 * 60 * 60 * 1000;
+const WEEK = 7 * DAY;
+
+// Comments this many lines apart or closer count as one hotspot.
+const HOTSPOT_GAP = 10;
+const MAX_HOTSPOTS = 10;
+const MAX_OLDEST = 10;
+const TREND_WEEKS = 12;
+
+export const AGE_BUCKETS = [
+    { label: 'Under a day', maxDays: 1 },
+    { label: '1–7 days', maxDays: 7 },
+    { label: '1–4 weeks', maxDays: 28 },
+    { label: 'Over 4 weeks', maxDays: Infinity }
+] as const;
+
+export interface CommentGroupStatistics {
+    total: number;
+    unresolved: number;
+    // The comment a click on the group goes to: its oldest unresolved one, else its newest.
+    commentId: string;
+}
+
+export interface FileStatistics extends CommentGroupStatistics {
+    workspaceFolder?: string;
+    fileName: string;
+}
+
+export interface CommitStatistics extends CommentGroupStatistics {
+    hash: string;
+}
+
+// Comments close to each other in one file.
+export interface Hotspot extends FileStatistics {
+    startLine: number;
+    endLine: number;
+}
+
+export interface OpenComment {
+    commentId: string;
+    workspaceFolder?: string;
+    fileName: string;
+    lineNumber: number;
+    content: string;
+    severity?: Severity;
+    ageDays: number;
+}
+
+// The comments resolved in a week, starting on a Monday.
+export interface ResolutionWeek {
+    weekStart: string;
+    resolved: number;
+    medianDaysToResolve?: number;
+}
+
+export interface ReviewStatistics {
+    summary: CommentSummary;
+    unresolved: number;
+    ageBuckets: { label: string; count: number }[];
+    oldestOpen: OpenComment[];
+    medianDaysToResolve?: number;
+    resolutionTrend: ResolutionWeek[];
+    files: FileStatistics[];
+    commits: CommitStatistics[];
+    hotspots: Hotspot[];
+}
+
+const daysBetween = (from: string, to: number): number => Math.max(0, (to - new Date(from).getTime()) / DAY);
+
+// Days from creating a comment to completing it; unknown for comments completed before `resolvedAt` was recorded.
+const getDaysToResolve = (comment: Comment): number | undefined =>
+    comment.completed && comment.resolvedAt ? daysBetween(comment.createdAt, new Date(comment.resolvedAt).getTime()) : undefined;
+
+function median(values: number[]): number | undefined {
+    if (values.length === 0) {
+        return undefined;
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+const getWeekStart = (time: number): Date => {
+    const date = new Date(time);
+    date.setHours(0, 0, 0, 0);
+    date.setDate(date.getDate() - (date.getDay() + 6) % 7);
+    return date;
+};
+
+const formatDate = (date: Date): string =>
+    `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`;
+
+const byCreation = (a: Comment, b: Comment): number => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+
+function summarizeGroup(comments: Comment[]): CommentGroupStatistics {
+    const unresolved = comments.filter(comment => !comment.completed).sort(byCreation);
+    return {
+        total: comments.length,
+        unresolved: unresolved.length,
+        commentId: (unresolved[0] ?? [...comments].sort(byCreation)[comments.length - 1]).id
+    };
+}
+
+function groupBy<T>(comments: Comment[], keyOf: (comment: Comment) => string, toGroup: (comments: Comment[]) => T): T[] {
+    const groups = new Map<string, Comment[]>();
+    comments.forEach(comment => {
+        const key = keyOf(comment);
+        groups.set(key, [...(groups.get(key) ?? []), comment]);
+    });
+    return [...groups.values()].map(toGroup);
+}
+
+// Most unresolved comments first, then most comments.
+const byActivity = (a: CommentGroupStatistics, b: CommentGroupStatistics): number => b.unresolved - a.unresolved || b.total - a.total;
+
+const fileKey = (comment: Comment): string => `${comment.workspaceFolder ?? ''}/${comment.fileName}`;
+
+function findHotspots(comments: Comment[]): Hotspot[] {
+    const live = comments.filter(comment => !comment.orphaned);
+    return groupBy(live, fileKey, fileComments => {
+        const sorted = [...fileComments].sort((a, b) => a.lineNumber - b.lineNumber);
+        const clusters: Comment[][] = [];
+        let clusterEnd = -Infinity;
+        sorted.forEach(comment => {
+            if (comment.lineNumber - clusterEnd > HOTSPOT_GAP) {
+                clusters.push([]);
+            }
+            clusters[clusters.length - 1].push(comment);
+            clusterEnd = Math.max(clusterEnd, getEndLineNumber(comment));
+        });
+        return clusters.filter(cluster => cluster.length > 1).map(cluster => ({
+            ...summarizeGroup(cluster),
+            workspaceFolder: cluster[0].workspaceFolder,
+            fileName: cluster[0].fileName,
+            startLine: cluster[0].lineNumber,
+            endLine: Math.max(...cluster.map(comment => getEndLineNumber(comment)))
+        }));
+    }).flat().sort((a, b) => b.total - a.total || byActivity(a, b)).slice(0, MAX_HOTSPOTS);
+}
+
+function getResolutionTrend(comments: Comment[], now: number): ResolutionWeek[] {
+    const firstWeek = getWeekStart(now - (TREND_WEEKS - 1) * WEEK);
+    const weeks = Array.from({ length: TREND_WEEKS }, (_, index) => {
+        const start = new Date(firstWeek);
+        start.setDate(start.getDate() + index * 7);
+        return { start: start.getTime(), daysToResolve: [] as number[] };
+    });
+    comments.forEach(comment => {
+        const days = getDaysToResolve(comment);
+        if (days === undefined) {
+            return;
+        }
+        const resolvedAt = new Date(comment.resolvedAt!).getTime();
+        const week = [...weeks].reverse().find(candidate => resolvedAt >= candidate.start);
+        week?.daysToResolve.push(days);
+    });
+    return weeks.map(week => ({
+        weekStart: formatDate(new Date(week.start)),
+        resolved: week.daysToResolve.length,
+        medianDaysToResolve: median(week.daysToResolve)
+    }));
+}
+
+export function computeStatistics(comments: Comment[], now = Date.now()): ReviewStatistics {
+    const unresolved = comments.filter(comment => !comment.completed);
+    const ages = unresolved.map(comment => daysBetween(comment.createdAt, now));
+    const resolveTimes = comments.map(getDaysToResolve).filter((days): days is number => days !== undefined);
+    return {
+        summary: summarizeComments(comments),
+        unresolved: unresolved.length,
+        ageBuckets: AGE_BUCKETS.map((bucket, index) => ({
+            label: bucket.label,
+            count: ages.filter(age => age < bucket.maxDays && (index === 0 || age >= AGE_BUCKETS[index - 1].maxDays)).length
+        })),
+        oldestOpen: [...unresolved].sort(byCreation).slice(0, MAX_OLDEST).map(comment => ({
+            commentId: comment.id,
+            workspaceFolder: comment.workspaceFolder,
+            fileName: comment.fileName,
+            lineNumber: comment.lineNumber,
+            content: comment.content,
+            severity: comment.severity,
+            ageDays: daysBetween(comment.createdAt, now)
+        })),
+        medianDaysToResolve: median(resolveTimes),
+        resolutionTrend: getResolutionTrend(comments, now),
+        files: groupBy(comments, fileKey, fileComments => ({
+            ...summarizeGroup(fileComments),
+            workspaceFolder: fileComments[0].workspaceFolder,
+            fileName: fileComments[0].fileName
+        })).sort(byActivity),
+        commits: groupBy(comments, comment => comment.hash, commitComments => ({
+            ...summarizeGroup(commitComments),
+            hash: commitComments[0].hash
+        })).sort(byActivity),
+        hotspots: findHotspots(comments)
+    };
+}
+
+const CSV_COLUMNS = [
+    'id', 'workspaceFolder', 'fileName', 'lineNumber', 'endLineNumber', 'hash', 'status', 'severity', 'category',
+    'author', 'createdAt', 'resolvedBy', 'resolvedAt', 'ageDays', 'daysToResolve', 'replies', 'content'
+] as const;
+
+const escapeCsv = (value: string | number | undefined): string => {
+    // Spreadsheets run text starting with these as a formula, so it is prefixed to stay text.
+    const text = value === undefined ? '' : typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : `${value}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const roundDays = (days: number | undefined): number | undefined => days === undefined ? undefined : Math.round(days * 10) / 10;
+
+// One row per comment, the data behind the dashboard, for analysing in a spreadsheet.
+export function statisticsToCsv(comments: Comment[], now = Date.now()): string {
+    const rows = comments.map(comment => {
+        const values: Record<typeof CSV_COLUMNS[number], string | number | undefined> = {
+            id: comment.id,
+            workspaceFolder: comment.workspaceFolder,
+            fileName: comment.fileName,
+            lineNumber: comment.lineNumber,
+            endLineNumber: getEndLineNumber(comment),
+            hash: comment.hash,
+            status: getCommentStatus(comment),
+            severity: comment.severity,
+            category: comment.category,
+            author: comment.author,
+            createdAt: comment.createdAt,
+            resolvedBy: comment.resolvedBy,
+            resolvedAt: comment.resolvedAt,
+            ageDays: comment.completed ? undefined : roundDays(daysBetween(comment.createdAt, now)),
+            daysToResolve: roundDays(getDaysToResolve(comment)),
+            replies: comment.replies?.length ?? 0,
+            content: comment.content
+        };
+        return CSV_COLUMNS.map(column => escapeCsv(values[column])).join(',');
+    });
+    return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
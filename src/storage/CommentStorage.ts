@@ -0,0 +1,28 @@
+import { Comment } from '../Comment';
+import { Review } from '../Review';
+
+export interface StoredComments {
+    comments: Comment[];
+    reviews: Review[];
+}
+
+export interface LoadedComments extends StoredComments {
+    // What was wrong with entries that had to be skipped, one message per entry.
+    problems: string[];
+}
+
+// What a save did with changes someone else made to the stored comments since they were loaded.
+export interface SaveResult {
+    // Their changes were merged in, so the stored comments differ from the ones saved.
+    merged: boolean;
+    // Entries changed both here and by someone else, where their version was kept.
+    conflicts: string[];
+}
+
+// Where the comments and reviews of one workspace folder are persisted.
+export interface CommentStorage {
+    // Shown in messages, e.g. the file or notes ref the comments live in.
+    readonly description: string;
+    load(): Promise<LoadedComments>;
+    save(data: StoredComments): Promise<SaveResult | void>;
+}
@@ -0,0 +1,157 @@
+import { Comment } from '../Comment';
+import { Review } from '../Review';
+import { gitService } from '../git/GitService';
+import { CommentStorage, LoadedComments, StoredComments } from './CommentStorage';
+import { validateComment, validateReview } from './schema';
+
+export const DEFAULT_NOTES_REF = 'refs/notes/code-review';
+
+/**
+ * One line of a note, holding a comment or a review. Deleted entries leave a record with
+ * neither, so a deletion isn't undone by merging in a note that still has them; the newest
+ * record of an entry wins.
+ */
+interface NoteRecord {
+    id: string;
+    updatedAt: string;
+    comment?: Comment;
+    review?: Review;
+}
+
+interface StoredRecord {
+    commit: string;
+    record: NoteRecord;
+    // The record as written, since the comment objects are changed in place.
+    line: string;
+    // Records whose entry failed validation are written back untouched.
+    invalid?: boolean;
+}
+
+const toStoredRecord = (commit: string, record: NoteRecord): StoredRecord => ({ commit, record, line: JSON.stringify(record) });
+
+// The ref that `sync` fetches a remote's notes into before merging them.
+export const getRemoteNotesRef = (ref: string, remote: string): string =>
+    `refs/notes/remotes/${remote}/${ref.replace(/^refs\/notes\//, '')}`;
+
+/**
+ * Keeps the comments in git notes under a dedicated ref, one note per commit they refer to;
+ * reviews go with their head commit. Notes hold one JSON record per line, so notes from different reviewers can be merged with
+ * the `cat_sort_uniq` strategy.
+ */
+export class GitNotesCommentStorage implements CommentStorage {
+    private records = new Map<string, StoredRecord>();
+    private notes = new Map<string, string>();
+    // Lines that aren't records at all, kept so rewriting their note doesn't lose them.
+    private malformedLines = new Map<string, string[]>();
+    private commits = new Map<string, string | undefined>();
+
+    constructor(private readonly cwd: string, public readonly ref: string = DEFAULT_NOTES_REF) { }
+
+    get description(): string {
+        return `git notes (${this.ref})`;
+    }
+
+    async load(): Promise<LoadedComments> {
+        this.records.clear();
+        this.notes.clear();
+        this.malformedLines.clear();
+        const problems: string[] = [];
+        const list = await gitService.exec(['notes', `--ref=${this.ref}`, 'list'], this.cwd);
+        for (const line of list.split('\n').filter(Boolean)) {
+            const [blob, commit] = line.split(' ');
+            const note = await gitService.exec(['cat-file', 'blob', blob], this.cwd);
+            this.notes.set(commit, note);
+            note.split('\n').filter(Boolean).forEach((text, index) => {
+                let record: NoteRecord | undefined;
+                try {
+                    record = JSON.parse(text);
+                } catch {
+                    record = undefined;
+                }
+                if (typeof record?.id !== 'string' || typeof record.updatedAt !== 'string') {
+                    problems.push(`line ${index + 1} of the note on ${commit.substring(0, 7)}: not a comment record`);
+                    this.malformedLines.set(commit, [...(this.malformedLines.get(commit) ?? []), text]);
+                    return;
+                }
+                const current = this.records.get(record.id);
+                if (!current || record.updatedAt > current.record.updatedAt) {
+                    this.records.set(record.id, { commit, record, line: text });
+                }
+            });
+        }
+
+        const loaded: LoadedComments = { comments: [], reviews: [], problems };
+        this.records.forEach(stored => {
+            const kind = stored.record.comment ? 'comment' : stored.record.review ? 'review' : undefined;
+            if (!kind) {
+                return;
+            }
+            const entry = JSON.parse(JSON.stringify(stored.record[kind]));
+            const errors = kind === 'comment' ? validateComment(entry) : validateReview(entry);
+            if (errors.length > 0) {
+                stored.invalid = true;
+                problems.push(`${kind} ${stored.record.id} on ${stored.commit.substring(0, 7)}: ${errors.join(', ')}`);
+            } else if (kind === 'comment') {
+                loaded.comments.push(entry);
+            } else {
+                loaded.reviews.push(entry);
+            }
+        });
+        return loaded;
+    }
+
+    async save({ comments, reviews }: StoredComments): Promise<void> {
+        const now = new Date().toISOString();
+        const records = new Map<string, StoredRecord>();
+        const entries = [
+            ...comments.map(comment => ({ kind: 'comment' as const, entry: comment, hash: comment.hash })),
+            ...reviews.map(review => ({ kind: 'review' as const, entry: review, hash: review.headHash }))
+        ];
+        for (const { kind, entry, hash } of entries) {
+            const previous = this.records.get(entry.id);
+            // Notes can only be attached to commits; entries on anything else stay where they are or go to HEAD.
+            const commit = await this.resolveCommit(hash) ?? previous?.commit ?? await this.getHead();
+            // The folder name is local to this workspace and means nothing to other clones.
+            const { workspaceFolder, ...stored } = entry;
+            const unchanged = previous?.commit === commit
+                && previous.line === JSON.stringify({ id: entry.id, updatedAt: previous.record.updatedAt, [kind]: stored });
+            records.set(entry.id, unchanged ? previous! : toStoredRecord(commit, { id: entry.id, updatedAt: now, [kind]: stored }));
+        }
+        this.records.forEach((previous, id) => {
+            if (!records.has(id)) {
+                const deleted = (previous.record.comment || previous.record.review) && !previous.invalid;
+                records.set(id, deleted ? toStoredRecord(previous.commit, { id, updatedAt: now }) : previous);
+            }
+        });
+
+        const lines = new Map<string, string[]>(this.malformedLines);
+        records.forEach(({ commit, line }) => lines.set(commit, [...(lines.get(commit) ?? []), line]));
+        for (const [commit, noteLines] of lines) {
+            const note = `${noteLines.sort().join('\n')}\n`;
+            if (this.notes.get(commit) !== note) {
+                await gitService.exec(['notes', `--ref=${this.ref}`, 'add', '--force', '--file=-', commit], this.cwd, note);
+                this.notes.set(commit, note);
+            }
+        }
+        for (const commit of [...this.notes.keys()].filter(commit => !lines.has(commit))) {
+            await gitService.exec(['notes', `--ref=${this.ref}`, 'remove', '--ignore-missing', commit], this.cwd);
+            this.notes.delete(commit);
+        }
+        this.records = records;
+    }
+
+    private async resolveCommit(revision: string): Promise<string | undefined> {
+        if (!this.commits.has(revision)) {
+            this.commits.set(revision, await gitService.resolveCommit(this.cwd, revision));
+        }
+        return this.commits.get(revision);
+    }
+
+    private async getHead(): Promise<string> {
+        try {
+            return (await gitService.exec(['rev-parse', '--verify', 'HEAD'], this.cwd)).trim();
+        } catch {
+            throw new Error('Git notes can only be stored once the repository has a commit.');
+        }
+    }
+}
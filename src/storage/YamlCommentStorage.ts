@@ -0,0 +1,157 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { Comment } from '../Comment';
+import { Review, describeReview } from '../Review';
+import { CommentStorage, LoadedComments, SaveResult, StoredComments } from './CommentStorage';
+import { CommentFileError, isObject, parseCommentFile, toCommentFile } from './schema';
+
+// Compares entries regardless of the order of their keys, and of the folder they were loaded into.
+function fingerprint(value: unknown): string {
+    const canonical = (item: unknown): unknown => {
+        if (Array.isArray(item)) {
+            return item.map(canonical);
+        }
+        if (!isObject(item)) {
+            return item;
+        }
+        return Object.fromEntries(Object.keys(item).filter(key => item[key] !== undefined && key !== 'workspaceFolder').sort().map(key => [key, canonical(item[key])]));
+    };
+    return JSON.stringify(canonical(value));
+}
+
+/**
+ * Merges the entries saved here with the ones in the file, by id, relative to the entries as
+ * they were loaded. Whichever side changed an entry wins; when both did, the file's version is
+ * kept and reported as a conflict.
+ */
+function mergeEntries<T extends { id: string }>(base: Map<string, string>, ours: T[], theirs: T[], describe: (entry: T) => string): { entries: T[]; conflicts: string[] } {
+    const oursById = new Map(ours.map(entry => [entry.id, entry]));
+    const theirsById = new Map(theirs.map(entry => [entry.id, entry]));
+    const entries: T[] = [];
+    const conflicts: string[] = [];
+    new Set([...oursById.keys(), ...theirsById.keys()]).forEach(id => {
+        const our = oursById.get(id);
+        const their = theirsById.get(id);
+        const ourPrint = our && fingerprint(our);
+        const theirPrint = their && fingerprint(their);
+        let merged: T | undefined;
+        if (theirPrint === base.get(id) || theirPrint === ourPrint) {
+            merged = our;
+        } else if (ourPrint === base.get(id)) {
+            merged = their;
+        } else {
+            merged = their;
+            conflicts.push(describe((our ?? their)!));
+        }
+        if (merged) {
+            entries.push(merged);
+        }
+    });
+    return { entries, conflicts };
+}
+
+/**
+ * Keeps the comments in `.vscode/diff-comments.yaml` inside the workspace folder. Entries that
+ * fail validation are written back untouched, and the previous file is copied to
+ * `diff-comments.yaml.bak` before a write that removes entries, migrates the format or
+ * replaces changes made by someone else. Those changes are merged in rather than overwritten.
+ */
+export class YamlCommentStorage implements CommentStorage {
+    public readonly storagePath: string;
+    public readonly backupPath: string;
+    // The file as last read or written, to tell our own writes from changes made by others.
+    private lastContent: string | undefined;
+    // Each entry by id as last read or written, the common ancestor when merging changes made by others.
+    private savedEntries = new Map<string, string>();
+    private invalidEntries: unknown[] = [];
+    private invalidReviews: unknown[] = [];
+    private migratedFrom: number | undefined;
+    // Set while the file can't be read, since saving would replace whatever is in it.
+    private loadError: Error | undefined;
+
+    constructor(folderPath: string) {
+        this.storagePath = path.join(folderPath, '.vscode', 'diff-comments.yaml');
+        this.backupPath = `${this.storagePath}.bak`;
+    }
+
+    get description(): string {
+        return '.vscode/diff-comments.yaml';
+    }
+
+    async load(): Promise<LoadedComments> {
+        this.lastContent = this.readFile();
+        this.loadError = undefined;
+        this.invalidEntries = [];
+        this.invalidReviews = [];
+        this.migratedFrom = undefined;
+        this.savedEntries.clear();
+        if (this.lastContent === undefined) {
+            return { comments: [], reviews: [], problems: [] };
+        }
+
+        try {
+            const parsed = parseCommentFile(yaml.load(this.lastContent));
+            this.invalidEntries = parsed.invalidEntries;
+            this.invalidReviews = parsed.invalidReviews;
+            this.migratedFrom = parsed.migratedFrom;
+            this.rememberEntries([...parsed.comments, ...parsed.reviews]);
+            return { comments: parsed.comments, reviews: parsed.reviews, problems: parsed.problems };
+        } catch (error) {
+            this.loadError = new CommentFileError(`${this.description} can't be read: ${(error as Error).message}`);
+            throw this.loadError;
+        }
+    }
+
+    async save({ comments, reviews }: StoredComments): Promise<SaveResult> {
+        if (this.loadError) {
+            throw new Error(`Not saving, since that would replace ${this.description}, which can't be read. Fix or remove the file first.`);
+        }
+        const current = this.readFile();
+        const result: SaveResult = { merged: false, conflicts: [] };
+        if (current !== undefined && current !== this.lastContent) {
+            // Changed by someone else, e.g. `git pull` or a hand edit, since it was loaded.
+            let theirs;
+            try {
+                theirs = parseCommentFile(yaml.load(current));
+            } catch (error) {
+                throw new Error(`Not saving, since ${this.description} was changed on disk and can't be read: ${(error as Error).message}. Fix the file first.`);
+            }
+            const mergedComments = mergeEntries(this.savedEntries, comments, theirs.comments, (comment: Comment) => `${comment.fileName}:${comment.lineNumber}`);
+            const mergedReviews = mergeEntries(this.savedEntries, reviews, theirs.reviews, (review: Review) => `review ${describeReview(review)}`);
+            comments = mergedComments.entries;
+            reviews = mergedReviews.entries;
+            this.invalidEntries = theirs.invalidEntries;
+            this.invalidReviews = theirs.invalidReviews;
+            result.merged = true;
+            result.conflicts = [...mergedComments.conflicts, ...mergedReviews.conflicts];
+        }
+        const ids = new Set([...comments, ...reviews].map(entry => entry.id));
+        const removesEntries = [...this.savedEntries.keys()].some(id => !ids.has(id));
+        if (current !== undefined && (removesEntries || this.migratedFrom !== undefined || result.merged)) {
+            fs.writeFileSync(this.backupPath, current);
+        }
+
+        const content = yaml.dump(toCommentFile([...comments, ...this.invalidEntries], [...reviews, ...this.invalidReviews]));
+        fs.mkdirSync(path.dirname(this.storagePath), { recursive: true });
+        fs.writeFileSync(this.storagePath, content);
+        this.lastContent = content;
+        this.savedEntries.clear();
+        this.rememberEntries([...comments, ...reviews]);
+        this.migratedFrom = undefined;
+        return result;
+    }
+
+    // True when the file was changed on disk by something other than this storage, e.g. `git pull`.
+    hasExternalChanges(): boolean {
+        return this.readFile() !== this.lastContent;
+    }
+
+    private rememberEntries(entries: { id: string }[]): void {
+        entries.forEach(entry => this.savedEntries.set(entry.id, fingerprint(entry)));
+    }
+
+    private readFile(): string | undefined {
+        return fs.existsSync(this.storagePath) ? fs.readFileSync(this.storagePath, 'utf8') : undefined;
+    }
+}
@@ -0,0 +1,140 @@
+import * as vscode from 'vscode';
+import { CommentManager } from '../CommentManager';
+import { gitService } from '../git/GitService';
+import { createGitNotesStorage, getNotesRef, getRemoteNotesRef, getStorageBackend, YamlCommentStorage } from './index';
+
+async function pickRemote(folders: vscode.WorkspaceFolder[]): Promise<string | undefined> {
+    const remotes = new Set<string>();
+    for (const folder of folders) {
+        try {
+            (await gitService.exec(['remote'], folder.uri.fsPath)).split('\n').filter(Boolean).forEach(remote => remotes.add(remote));
+        } catch {
+            // Not a git repository; it has nothing to sync.
+        }
+    }
+    if (remotes.size === 0) {
+        vscode.window.showWarningMessage('There is no git remote to sync the review comments with.');
+        return undefined;
+    }
+    if (remotes.size === 1) {
+        return [...remotes][0];
+    }
+    return vscode.window.showQuickPick([...remotes], { placeHolder: 'Which remote should the review comments be synced with?' });
+}
+
+// Fetches the remote's notes, merges them into ours and pushes the result back.
+async function syncFolder(folder: vscode.WorkspaceFolder, remote: string): Promise<void> {
+    const cwd = folder.uri.fsPath;
+    const ref = getNotesRef(folder);
+    const remoteRef = getRemoteNotesRef(ref, remote);
+    let fetched = true;
+    try {
+        await gitService.exec(['fetch', remote, `+${ref}:${remoteRef}`], cwd);
+    } catch (error) {
+        // Nobody has pushed review comments to this remote yet.
+        if (!/couldn't find remote ref/.test((error as Error).message)) {
+            throw error;
+        }
+        fetched = false;
+    }
+    if (fetched) {
+        await gitService.exec(['notes', `--ref=${ref}`, 'merge', '--strategy=cat_sort_uniq', '--quiet', remoteRef], cwd);
+    }
+    try {
+        await gitService.exec(['rev-parse', '--verify', '--quiet', ref], cwd);
+    } catch {
+        // There are no comments on either side.
+        return;
+    }
+    await gitService.exec(['push', remote, `${ref}:${ref}`], cwd);
+}
+
+/**
+ * Syncs the comments of every folder that keeps them in git notes with a remote. Returns true
+ * when the comments were reloaded.
+ */
+export async function syncGitNotes(commentManager: CommentManager): Promise<boolean> {
+    const folders = commentManager.getWorkspaceFolders().filter(folder => getStorageBackend(folder) === 'gitNotes');
+    if (folders.length === 0) {
+        vscode.window.showInformationMessage('Review comments are only synced when they are stored in git notes. Change the "Storage: Backend" setting or run "Migrate Comments to Git Notes".');
+        return false;
+    }
+    const remote = await pickRemote(folders);
+    if (!remote) {
+        return false;
+    }
+
+    // Our own notes must be written before they are merged.
+    await commentManager.flush();
+    const failures: string[] = [];
+    await vscode.window.withProgress({ location: vscode.ProgressLocation.Notification, title: `Syncing review comments with ${remote}` }, async () => {
+        for (const folder of folders) {
+            try {
+                await syncFolder(folder, remote);
+            } catch (error) {
+                console.error(`Error syncing review comments of ${folder.name}:`, error);
+                failures.push(`${folder.name}: ${(error as Error).message}`);
+            }
+        }
+    });
+    await commentManager.reloadStores(folders);
+
+    if (failures.length > 0) {
+        vscode.window.showErrorMessage(`Failed to sync review comments with ${remote}. ${failures.join(' ')}`);
+    } else {
+        vscode.window.showInformationMessage(`Synced review comments with ${remote}.`);
+    }
+    return true;
+}
+
+/**
+ * Copies the comments of `.vscode/diff-comments.yaml` into git notes, keeping the notes of any
+ * other comments, and offers to switch to the git notes backend. The YAML file is left in place.
+ * Returns true when anything was migrated.
+ */
+export async function migrateToGitNotes(commentManager: CommentManager): Promise<boolean> {
+    await commentManager.flush();
+    let migrated = 0;
+    let migratedReviews = 0;
+    let invalid = 0;
+    for (const folder of commentManager.getWorkspaceFolders()) {
+        const yamlStorage = new YamlCommentStorage(folder.uri.fsPath);
+        try {
+            const { comments, reviews, problems } = await yamlStorage.load();
+            invalid += problems.length;
+            if (comments.length === 0 && reviews.length === 0) {
+                continue;
+            }
+            const notesStorage = createGitNotesStorage(folder);
+            const ids = new Set([...comments, ...reviews].map(entry => entry.id));
+            const existing = await notesStorage.load();
+            await notesStorage.save({
+                comments: [...existing.comments.filter(comment => !ids.has(comment.id)), ...comments],
+                reviews: [...existing.reviews.filter(review => !ids.has(review.id)), ...reviews]
+            });
+            migrated += comments.length;
+            migratedReviews += reviews.length;
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to migrate the review comments of ${folder.name} to git notes: ${(error as Error).message}`);
+            return migrated + migratedReviews > 0;
+        }
+    }
+    if (migrated + migratedReviews === 0) {
+        vscode.window.showInformationMessage('There are no comments in .vscode/diff-comments.yaml to migrate.');
+        return false;
+    }
+
+    const invalidMessage = invalid > 0 ? ` ${invalid} invalid entries were not migrated.` : '';
+    const reviewsMessage = migratedReviews > 0 ? ` and ${migratedReviews} reviews` : '';
+    const message = `Migrated ${migrated} comments${reviewsMessage} to git notes.${invalidMessage} The YAML file was left in place; delete it once you no longer need it.`;
+    if (commentManager.getWorkspaceFolders().every(folder => getStorageBackend(folder) === 'gitNotes')) {
+        vscode.window.showInformationMessage(message);
+        return true;
+    }
+    const switchBackend = 'Use Git Notes';
+    if (await vscode.window.showInformationMessage(message, switchBackend) === switchBackend) {
+        // Changing the setting reloads the comments from the new backend.
+        await vscode.workspace.getConfiguration('code-review-comments.storage').update('backend', 'gitNotes', vscode.ConfigurationTarget.Workspace);
+    }
+    return true;
+}
@@ -0,0 +1,28 @@
+import * as vscode from 'vscode';
+import { CommentStorage } from './CommentStorage';
+import { DEFAULT_NOTES_REF, GitNotesCommentStorage } from './GitNotesCommentStorage';
+import { YamlCommentStorage } from './YamlCommentStorage';
+
+export { CommentStorage, LoadedComments } from './CommentStorage';
+export { GitNotesCommentStorage, getRemoteNotesRef } from './GitNotesCommentStorage';
+export { YamlCommentStorage } from './YamlCommentStorage';
+
+export type StorageBackend = 'yaml' | 'gitNotes';
+
+export const getStorageBackend = (folder: vscode.WorkspaceFolder): StorageBackend =>
+    vscode.workspace.getConfiguration('code-review-comments.storage', folder).get<StorageBackend>('backend', 'yaml');
+
+// Git only writes notes under `refs/notes/`, so short names such as `code-review` are placed there.
+export const getNotesRef = (folder: vscode.WorkspaceFolder): string => {
+    const ref = vscode.workspace.getConfiguration('code-review-comments.storage', folder).get<string>('notesRef', DEFAULT_NOTES_REF).trim();
+    if (!ref) {
+        return DEFAULT_NOTES_REF;
+    }
+    return ref.startsWith('refs/notes/') ? ref : `refs/notes/${ref}`;
+};
+
+export const createGitNotesStorage = (folder: vscode.WorkspaceFolder): GitNotesCommentStorage =>
+    new GitNotesCommentStorage(folder.uri.fsPath, getNotesRef(folder));
+
+export const createStorage = (folder: vscode.WorkspaceFolder): CommentStorage =>
+    getStorageBackend(folder) === 'gitNotes' ? createGitNotesStorage(folder) : new YamlCommentStorage(folder.uri.fsPath);
@@ -0,0 +1,240 @@
+import { Comment, SEVERITIES, isSeverity } from '../Comment';
+import { Review, VERDICTS, isVerdict } from '../Review';
+
+/**
+ * Version of the comments file format. Version 1 was a bare list of comments; since version 2
+ * the list sits under a header that records the version. Version 3 added review sessions.
+ */
+export const STORAGE_VERSION = 3;
+
+export interface CommentFile {
+    version: number;
+    comments: unknown[];
+    reviews?: unknown[];
+}
+
+// Thrown when a comments file can't be read at all, as opposed to having some invalid entries.
+export class CommentFileError extends Error { }
+
+export interface ParsedCommentFile {
+    comments: Comment[];
+    reviews: Review[];
+    // Entries that failed validation, kept as they are so saving doesn't lose them.
+    invalidEntries: unknown[];
+    invalidReviews: unknown[];
+    problems: string[];
+    // The version the file was written in, when it was older than the current one.
+    migratedFrom?: number;
+}
+
+// Each migration turns a file of its version into one of the next version.
+const migrations: Record<number, (file: CommentFile) => CommentFile> = {
+    // Version 1 files are read as a version 1 header around the bare list.
+    1: file => ({ version: 2, comments: file.comments }),
+    2: file => ({ version: 3, comments: file.comments, reviews: [] })
+};
+
+export const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// YAML reads unquoted timestamps as dates.
+const toIsoString = (value: unknown): unknown => value instanceof Date ? value.toISOString() : value;
+
+const isPositiveInteger = (value: unknown): boolean => Number.isInteger(value) && (value as number) > 0;
+
+const isStringArray = (value: unknown): boolean => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+/**
+ * Checks one comment and returns what is wrong with it. Fills in fields that older files may
+ * lack and turns dates that YAML parsed back into strings.
+ */
+export function validateComment(entry: unknown): string[] {
+    if (!isObject(entry)) {
+        return ['not an object'];
+    }
+    const errors: string[] = [];
+    entry.createdAt = toIsoString(entry.createdAt);
+    if (entry.resolvedAt !== undefined) {
+        entry.resolvedAt = toIsoString(entry.resolvedAt);
+    }
+    if (Array.isArray(entry.replies)) {
+        entry.replies.filter(isObject).forEach((reply: Record<string, unknown>) => {
+            reply.createdAt = toIsoString(reply.createdAt);
+        });
+    }
+    entry.completed ??= false;
+    entry.parentHash ??= '';
+
+    const requireType = (field: string, type: 'string' | 'boolean') => {
+        if (typeof entry[field] !== type) {
+            errors.push(`"${field}" must be a ${type}`);
+        }
+    };
+    ['id', 'fileName'].forEach(field => {
+        if (typeof entry[field] !== 'string' || !entry[field]) {
+            errors.push(`"${field}" must be a non-empty string`);
+        }
+    });
+    ['content', 'hash', 'parentHash', 'createdAt'].forEach(field => requireType(field, 'string'));
+    requireType('completed', 'boolean');
+    if (!isPositiveInteger(entry.lineNumber)) {
+        errors.push('"lineNumber" must be a positive integer');
+    }
+    ['endLineNumber', 'startColumn', 'endColumn'].forEach(field => {
+        if (entry[field] !== undefined && !isPositiveInteger(entry[field])) {
+            errors.push(`"${field}" must be a positive integer`);
+        }
+    });
+    ['workspaceFolder', 'originalFileName', 'author', 'authorEmail', 'resolvedBy', 'resolvedAt', 'category', 'reviewId'].forEach(field => {
+        if (entry[field] !== undefined && typeof entry[field] !== 'string') {
+            errors.push(`"${field}" must be a string`);
+        }
+    });
+    ['outdated', 'orphaned', 'commitMissing'].forEach(field => {
+        if (entry[field] !== undefined && typeof entry[field] !== 'boolean') {
+            errors.push(`"${field}" must be a boolean`);
+        }
+    });
+    if (entry.severity !== undefined && !isSeverity(entry.severity)) {
+        errors.push(`"severity" must be one of ${SEVERITIES.join(', ')}`);
+    }
+    if (entry.tags !== undefined && !isStringArray(entry.tags)) {
+        errors.push('"tags" must be a list of strings');
+    }
+    if (entry.anchor !== undefined && !(isObject(entry.anchor) && typeof entry.anchor.text === 'string'
+        && isStringArray(entry.anchor.before) && isStringArray(entry.anchor.after)
+        && (entry.anchor.baseLineNumber === undefined || isPositiveInteger(entry.anchor.baseLineNumber)))) {
+        errors.push('"anchor" must have a "text", "before" and "after" lines and an optional "baseLineNumber"');
+    }
+    if (entry.snapshot !== undefined && !(isObject(entry.snapshot) && isStringArray(entry.snapshot.lines)
+        && isPositiveInteger(entry.snapshot.startLine) && isPositiveInteger(entry.snapshot.endLine)
+        && (entry.snapshot.subject === undefined || typeof entry.snapshot.subject === 'string'))) {
+        errors.push('"snapshot" must have "lines", a "startLine" and an "endLine", and an optional "subject"');
+    }
+    if (entry.suggestion !== undefined && !(isObject(entry.suggestion)
+        && typeof entry.suggestion.original === 'string' && typeof entry.suggestion.replacement === 'string')) {
+        errors.push('"suggestion" must have an "original" and a "replacement" string');
+    }
+    if (entry.replies !== undefined && !(Array.isArray(entry.replies) && entry.replies.every((reply: unknown) =>
+        isObject(reply) && ['id', 'author', 'body', 'createdAt'].every(field => typeof reply[field] === 'string')
+        && (reply.authorEmail === undefined || typeof reply.authorEmail === 'string')))) {
+        errors.push('"replies" must be a list of replies with an "id", "author", "body" and "createdAt"');
+    }
+    return errors;
+}
+
+// Checks one review session and returns what is wrong with it.
+export function validateReview(entry: unknown): string[] {
+    if (!isObject(entry)) {
+        return ['not an object'];
+    }
+    const errors: string[] = [];
+    ['createdAt', 'finishedAt'].filter(field => entry[field] !== undefined).forEach(field => {
+        entry[field] = toIsoString(entry[field]);
+    });
+    if (Array.isArray(entry.checklists)) {
+        entry.checklists.filter(isObject).flatMap(checklist => Array.isArray(checklist.items) ? checklist.items : [])
+            .filter(isObject)
+            .forEach(item => {
+                if (item.checkedAt !== undefined) {
+                    item.checkedAt = toIsoString(item.checkedAt);
+                }
+            });
+    }
+    entry.files ??= [];
+
+    ['id', 'baseRef', 'headRef', 'baseHash', 'headHash'].forEach(field => {
+        if (typeof entry[field] !== 'string' || !entry[field]) {
+            errors.push(`"${field}" must be a non-empty string`);
+        }
+    });
+    if (typeof entry.createdAt !== 'string') {
+        errors.push('"createdAt" must be a string');
+    }
+    ['workspaceFolder', 'author', 'finishedAt', 'summary'].forEach(field => {
+        if (entry[field] !== undefined && typeof entry[field] !== 'string') {
+            errors.push(`"${field}" must be a string`);
+        }
+    });
+    if (entry.verdict !== undefined && !isVerdict(entry.verdict)) {
+        errors.push(`"verdict" must be one of ${VERDICTS.join(', ')}`);
+    }
+    if (!(Array.isArray(entry.files) && entry.files.every((file: unknown) => isObject(file)
+        && typeof file.fileName === 'string' && typeof file.status === 'string'
+        && ['originalFileName', 'viewedBlob'].every(field => file[field] === undefined || typeof file[field] === 'string')))) {
+        errors.push('"files" must be a list of files with a "fileName" and a "status"');
+    }
+    if (entry.checklists !== undefined && !(Array.isArray(entry.checklists) && entry.checklists.every((checklist: unknown) => isObject(checklist)
+        && typeof checklist.name === 'string' && Array.isArray(checklist.items)
+        && checklist.items.every((item: unknown) => isObject(item) && typeof item.text === 'string' && typeof item.checked === 'boolean'
+            && ['checkedBy', 'checkedAt'].every(field => item[field] === undefined || typeof item[field] === 'string'))))) {
+        errors.push('"checklists" must be a list of checklists with a "name" and "items" that have a "text" and "checked"');
+    }
+    return errors;
+}
+
+const describeEntry = (kind: string, entry: unknown, index: number): string =>
+    isObject(entry) && typeof entry.id === 'string' ? `${kind} ${index + 1} (${entry.id})` : `${kind} ${index + 1}`;
+
+/**
+ * Reads the parsed contents of a comments file of any version. Invalid entries are reported
+ * per entry instead of failing the whole file; throws a CommentFileError when the file isn't a
+ * comments file or was written by a newer version of the extension.
+ */
+export function parseCommentFile(data: unknown): ParsedCommentFile {
+    let version: number;
+    let comments: unknown = [];
+    let reviews: unknown = [];
+    if (data === undefined || data === null) {
+        version = STORAGE_VERSION;
+    } else if (Array.isArray(data)) {
+        version = 1;
+        comments = data;
+    } else if (isObject(data) && typeof data.version === 'number' && Number.isInteger(data.version)) {
+        version = data.version;
+        comments = data.comments ?? [];
+        reviews = data.reviews ?? [];
+    } else {
+        throw new CommentFileError('expected a "version" and a list of "comments"');
+    }
+
+    if (version < 1) {
+        throw new CommentFileError(`version ${version} is not a valid version of the format`);
+    }
+    if (version > STORAGE_VERSION) {
+        throw new CommentFileError(`it was written in version ${version} of the format, which is newer than this extension supports (${STORAGE_VERSION}); please update the extension`);
+    }
+    if (!Array.isArray(comments)) {
+        throw new CommentFileError('"comments" must be a list');
+    }
+    if (!Array.isArray(reviews)) {
+        throw new CommentFileError('"reviews" must be a list');
+    }
+    let file: CommentFile = { version, comments, reviews };
+    const migratedFrom = version < STORAGE_VERSION ? version : undefined;
+    while (file.version < STORAGE_VERSION) {
+        file = migrations[file.version](file);
+    }
+
+    const parsed: ParsedCommentFile = { comments: [], reviews: [], invalidEntries: [], invalidReviews: [], problems: [], migratedFrom };
+    file.comments.forEach((entry, index) => {
+        const errors = validateComment(entry);
+        if (errors.length > 0) {
+            parsed.invalidEntries.push(entry);
+            parsed.problems.push(`${describeEntry('comment', entry, index)}: ${errors.join(', ')}`);
+        } else {
+            parsed.comments.push(entry as Comment);
+        }
+    });
+    (file.reviews ?? []).forEach((entry, index) => {
+        const errors = validateReview(entry);
+        if (errors.length > 0) {
+            parsed.invalidReviews.push(entry);
+            parsed.problems.push(`${describeEntry('review', entry, index)}: ${errors.join(', ')}`);
+        } else {
+            parsed.reviews.push(entry as Review);
+        }
+    });
+    return parsed;
+}
+
+export const toCommentFile = (comments: unknown[], reviews: unknown[]): CommentFile => ({ version: STORAGE_VERSION, comments, reviews });
@@ -0,0 +1,90 @@
+import * as vscode from 'vscode';
+import { Comment, CommentSuggestion } from './Comment';
+import { CommentManager } from './CommentManager';
+import { createAnchor } from './anchoring';
+import { getCommentRange } from './commentRange';
+import { setCompleted } from './comments';
+import { formatTimestampWithTimezone } from './utils/time';
+
+const normalizeEol = (text: string): string => text.replace(/\r\n/g, '\n');
+
+export const getSuggestionRange = (document: vscode.TextDocument, comment: Comment): vscode.Range =>
+    document.validateRange(getCommentRange(comment));
+
+/**
+ * Asks for the replacement text of the commented range. Line breaks are typed as `\n`, since
+ * the input box only has one line. Returns undefined when cancelled.
+ */
+export async function promptSuggestion(original: string): Promise<CommentSuggestion | undefined> {
+    const escape = (text: string) => text.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+    const replacement = await vscode.window.showInputBox({
+        prompt: 'Suggested replacement for the selected code (type \\n for a line break)',
+        value: escape(normalizeEol(original))
+    });
+    if (replacement === undefined) {
+        return undefined;
+    }
+    return {
+        original: normalizeEol(original),
+        replacement: replacement.replace(/\\(\\|n)/g, (_, escaped: string) => escaped === 'n' ? '\n' : '\\')
+    };
+}
+
+// The file as it would look with the suggestion applied, for the preview diff.
+export function getSuggestedContent(document: vscode.TextDocument, comment: Comment): string {
+    if (!comment.suggestion) {
+        return document.getText();
+    }
+    const range = getSuggestionRange(document, comment);
+    const eol = document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n';
+    return document.getText(new vscode.Range(new vscode.Position(0, 0), range.start))
+        + comment.suggestion.replacement.replace(/\n/g, eol)
+        + document.getText(new vscode.Range(range.end, document.lineAt(document.lineCount - 1).range.end));
+}
+
+/**
+ * Replaces the commented range with the suggestion and marks the comment completed. Refuses
+ * when the code has changed since the suggestion was made. Returns true when it was applied.
+ */
+export async function applySuggestion(commentManager: CommentManager, comment: Comment): Promise<boolean> {
+    const uri = commentManager.getCommentUri(comment);
+    if (!comment.suggestion || !uri) {
+        return false;
+    }
+    const document = await vscode.workspace.openTextDocument(uri);
+    const range = getSuggestionRange(document, comment);
+    if (comment.outdated || normalizeEol(document.getText(range)) !== comment.suggestion.original) {
+        vscode.window.showErrorMessage('The suggestion can no longer be applied: the code it refers to has changed.');
+        return false;
+    }
+
+    const hadUnsavedChanges = document.isDirty;
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(uri, range, comment.suggestion.replacement.replace(/\n/g, document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n'));
+    if (!await vscode.workspace.applyEdit(edit)) {
+        vscode.window.showErrorMessage('Failed to apply the suggestion.');
+        return false;
+    }
+    // Re-anchoring reads the file from disk, so it gets the replacement too; unsaved edits of the
+    // user's are left for them to save, which re-anchors the comment then.
+    if (!hadUnsavedChanges && !await document.save()) {
+        vscode.window.showWarningMessage(`The suggestion was applied, but ${vscode.workspace.asRelativePath(uri)} could not be saved.`);
+    }
+
+    // The commented code is now the replacement; anchor on it so the comment doesn't become outdated.
+    // The line in the commented revision no longer describes this code, so it isn't carried over.
+    const replacementLines = comment.suggestion.replacement.split('\n');
+    if (replacementLines.length > 1) {
+        comment.endLineNumber = comment.lineNumber + replacementLines.length - 1;
+    } else {
+        delete comment.endLineNumber;
+    }
+    if (comment.startColumn !== undefined && comment.endColumn !== undefined) {
+        const lastLine = replacementLines[replacementLines.length - 1];
+        comment.endColumn = (replacementLines.length > 1 ? 1 : comment.startColumn) + lastLine.length;
+    }
+    comment.anchor = createAnchor(document.getText().split(/\r?\n/), comment.lineNumber);
+    setCompleted(comment, true, commentManager.getAuthorIdentity(comment).name, formatTimestampWithTimezone(new Date()));
+    commentManager.updateComment(comment, 'Apply Suggestion');
+    return true;
+}
@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { isSeverity } from './Comment';
+import { Classification, SEVERITY_INFO } from './severity';
+import { isObject } from './storage/schema';
+
+export interface CommentTemplate extends Classification {
+    name: string;
+    body: string;
+}
+
+// Values for the `${...}` placeholders of a template body.
+export interface TemplateContext {
+    // Relative to the workspace folder.
+    file: string;
+    line: number;
+    endLine: number;
+    selection: string;
+    author: string;
+}
+
+// Templates from the settings; entries without a name and a body are skipped.
+export function getTemplates(): CommentTemplate[] {
+    const templates = vscode.workspace.getConfiguration('code-review-comments').get<unknown[]>('templates', []);
+    return templates.flatMap(template => {
+        if (!isObject(template) || typeof template.name !== 'string' || typeof template.body !== 'string') {
+            return [];
+        }
+        const result: CommentTemplate = { name: template.name, body: template.body };
+        if (isSeverity(template.severity)) {
+            result.severity = template.severity;
+        }
+        if (typeof template.category === 'string') {
+            result.category = template.category;
+        }
+        if (Array.isArray(template.tags)) {
+            result.tags = template.tags.filter((tag): tag is string => typeof tag === 'string');
+        }
+        return [result];
+    });
+}
+
+/**
+ * Fills in `${file}`, `${fileBasename}`, `${line}`, `${endLine}`, `${selection}` and
+ * `${author}`; other placeholders are left as they are. The comment is typed on one line, so
+ * the selected code is put on one line too.
+ */
+export function expandTemplate(body: string, context: TemplateContext): string {
+    const values: Record<string, string> = {
+        file: context.file,
+        fileBasename: path.posix.basename(context.file),
+        line: `${context.line}`,
+        endLine: `${context.endLine}`,
+        selection: context.selection.trim().replace(/\s*\r?\n\s*/g, ' '),
+        author: context.author
+    };
+    return body.replace(/\$\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+/**
+ * Offers the configured templates before a comment is typed. Resolves to null for a blank
+ * comment, also when no templates are configured, and to undefined when cancelled.
+ */
+export async function pickTemplate(): Promise<CommentTemplate | null | undefined> {
+    const templates = getTemplates();
+    if (templates.length === 0) {
+        return null;
+    }
+    const picked = await vscode.window.showQuickPick([
+        { label: '$(edit) Blank Comment', template: null },
+        ...templates.map(template => ({
+            label: template.name,
+            description: template.severity ? SEVERITY_INFO[template.severity].label : undefined,
+            detail: template.body,
+            template
+        }))
+    ], { placeHolder: 'Start from a template', matchOnDetail: true });
+    return picked ? picked.template : undefined;
+}
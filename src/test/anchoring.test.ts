@@ -0,0 +1,147 @@
+import * as assert from 'assert';
+import { Comment } from '../Comment';
+import { createAnchor, findAnchoredLine, mapLineThroughDiff, reanchorComment } from '../anchoring';
+
+const original = [
+    'import { a } from "a";',
+    '',
+    'function total(items) {',
+    '    let sum = 0;',
+    '    for (const item of items) {',
+    '        sum += item.price;',
+    '    }',
+    '    return sum;',
+    '}',
+    '',
+    'export default total;'
+];
+
+// A comment on lines 5-7 of `original`, anchored on its first line in the commit.
+const comment = (): Comment => ({
+    id: '1',
+    content: 'Use reduce',
+    fileName: 'src/total.ts',
+    lineNumber: 5,
+    endLineNumber: 7,
+    hash: 'a'.repeat(40),
+    parentHash: 'b'.repeat(40),
+    createdAt: '2024-01-01T12:00:00+00:00',
+    completed: false,
+    anchor: createAnchor(original, 5, 5)
+});
+
+suite('mapLineThroughDiff', () => {
+    // Two lines inserted after line 2, line 6 changed and line 9 deleted.
+    const diff = [
+        'diff --git a/src/total.ts b/src/total.ts',
+        '@@ -2,0 +3,2 @@',
+        '+// Adds up the prices.',
+        '+// Returns 0 for no items.',
+        '@@ -6 +8 @@',
+        '-        sum += item.price;',
+        '+        sum += item.price * item.count;',
+        '@@ -9 +10,0 @@',
+        '-}'
+    ].join('\n');
+
+    test('keeps lines above the changes', () => {
+        assert.strictEqual(mapLineThroughDiff(diff, 1), 1);
+        assert.strictEqual(mapLineThroughDiff(diff, 2), 2);
+    });
+
+    test('moves lines below an insertion', () => {
+        assert.strictEqual(mapLineThroughDiff(diff, 3), 5);
+        assert.strictEqual(mapLineThroughDiff(diff, 8), 10);
+    });
+
+    test('returns undefined for changed and deleted lines', () => {
+        assert.strictEqual(mapLineThroughDiff(diff, 6), undefined);
+        assert.strictEqual(mapLineThroughDiff(diff, 9), undefined);
+    });
+
+    test('moves lines below a deletion back up', () => {
+        assert.strictEqual(mapLineThroughDiff(diff, 11), 12);
+    });
+
+    test('maps from the new side onto the old one in reverse', () => {
+        assert.strictEqual(mapLineThroughDiff(diff, 5, true), 3);
+        assert.strictEqual(mapLineThroughDiff(diff, 3, true), undefined);
+        assert.strictEqual(mapLineThroughDiff(diff, 12, true), 11);
+    });
+});
+
+suite('findAnchoredLine', () => {
+    const anchor = createAnchor(original, 5);
+
+    test('finds a slightly edited line', () => {
+        const lines = [...original];
+        lines[4] = '    for (const item of items)  {';
+        assert.strictEqual(findAnchoredLine(lines, anchor, 5), 5);
+    });
+
+    test('finds nothing when the line changed beyond the similarity threshold', () => {
+        const lines = [...original];
+        lines[4] = '    items.forEach(entry => {';
+        assert.strictEqual(findAnchoredLine(lines, anchor, 5), undefined);
+    });
+
+    test('prefers the copy whose context still matches', () => {
+        const lines = ['    for (const item of items) {', ...original];
+        assert.strictEqual(findAnchoredLine(lines, anchor, 1), 6);
+    });
+});
+
+suite('reanchorComment', () => {
+    test('follows an insertion above the comment through the diff', () => {
+        const lines = ['// Prices', '// in cents', ...original];
+        const moved = comment();
+        assert.ok(reanchorComment(moved, lines, '@@ -0,0 +1,2 @@\n+// Prices\n+// in cents'));
+        assert.strictEqual(moved.lineNumber, 7);
+        assert.strictEqual(moved.endLineNumber, 9);
+        assert.strictEqual(moved.outdated, undefined);
+    });
+
+    test('follows an insertion above the comment without a diff', () => {
+        const lines = ['// Prices', ...original];
+        const moved = comment();
+        assert.ok(reanchorComment(moved, lines, undefined));
+        assert.strictEqual(moved.lineNumber, 6);
+        assert.strictEqual(moved.endLineNumber, 8);
+    });
+
+    test('flags the comment as outdated when its anchored line is deleted', () => {
+        const lines = original.filter((_, index) => index !== 4);
+        const deleted = comment();
+        assert.ok(reanchorComment(deleted, lines, '@@ -5 +4,0 @@\n-    for (const item of items) {'));
+        assert.strictEqual(deleted.outdated, true);
+        assert.strictEqual(deleted.lineNumber, 5);
+        // A later change that brings the line back clears the flag again.
+        assert.ok(reanchorComment(deleted, original, ''));
+        assert.strictEqual(deleted.outdated, undefined);
+    });
+
+    test('moves a range by its first line when lines inside it change', () => {
+        // Only the first line is anchored, so the range keeps its length rather than growing.
+        const lines = [...original.slice(0, 5), '        if (!item) continue;', ...original.slice(5)];
+        lines[6] = '        sum += item.price * item.count;';
+        const range = comment();
+        assert.ok(!reanchorComment(range, lines, '@@ -5,0 +6 @@\n+        if (!item) continue;\n@@ -6 +7 @@\n-        sum += item.price;\n+        sum += item.price * item.count;'));
+        assert.strictEqual(range.lineNumber, 5);
+        assert.strictEqual(range.endLineNumber, 7);
+        assert.strictEqual(range.outdated, undefined);
+    });
+
+    test('flags the comment as outdated when its line changed beyond the similarity threshold', () => {
+        const lines = [...original];
+        lines[4] = '    items.forEach(entry => {';
+        const rewritten = comment();
+        assert.ok(reanchorComment(rewritten, lines, '@@ -5 +5 @@\n-    for (const item of items) {\n+    items.forEach(entry => {'));
+        assert.strictEqual(rewritten.outdated, true);
+    });
+
+    test('leaves comments without an anchor alone', () => {
+        const unanchored = { ...comment(), anchor: undefined };
+        assert.ok(!reanchorComment(unanchored, [], undefined));
+        assert.strictEqual(unanchored.lineNumber, 5);
+    });
+});
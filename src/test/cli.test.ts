@@ -0,0 +1,135 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { EXIT_ERROR, EXIT_FAILED, run } from '../cli';
+import { formatCheck, formatComments } from '../cli/output';
+import { STORAGE_VERSION } from '../storage/schema';
+
+const entry = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    content: `Comment ${id}`,
+    fileName: 'src/a.ts',
+    lineNumber: 3,
+    hash: 'a'.repeat(40),
+    parentHash: 'b'.repeat(40),
+    createdAt: '2024-01-01T12:00:00+00:00',
+    completed: false,
+    ...overrides
+});
+
+// Runs the tool and collects what it writes.
+async function runCli(args: string[]): Promise<{ code: number; out: string; err: string }> {
+    const out: string[] = [];
+    const err: string[] = [];
+    const code = await run(args, { log: message => out.push(message), error: message => err.push(message) });
+    return { code, out: out.join('\n'), err: err.join('\n') };
+}
+
+suite('command line tool', () => {
+    let folder: string;
+
+    const writeComments = (comments: unknown[]) => {
+        fs.mkdirSync(path.join(folder, '.vscode'), { recursive: true });
+        fs.writeFileSync(path.join(folder, '.vscode', 'diff-comments.yaml'), yaml.dump({ version: STORAGE_VERSION, comments, reviews: [] }));
+    };
+
+    setup(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'code-review-comments-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    test('lists filtered comments as JSON with their status', async () => {
+        writeComments([entry('1', { severity: 'nit' }), entry('2', { completed: true }), entry('3', { fileName: 'docs/b.md' })]);
+        const { code, out } = await runCli(['list', '--cwd', folder, '--format', 'json', '--status', 'open', '--file', 'src']);
+        assert.strictEqual(code, 0);
+        const listed = JSON.parse(out);
+        assert.deepStrictEqual(listed.map((comment: { id: string }) => comment.id), ['1']);
+        assert.strictEqual(listed[0].status, 'open');
+        assert.strictEqual(listed[0].severity, 'nit');
+    });
+
+    test('summarizes comments as JSON', async () => {
+        writeComments([entry('1', { severity: 'blocker' }), entry('2', { outdated: true }), entry('3', { completed: true })]);
+        const { code, out } = await runCli(['summary', '--cwd', folder, '--format', 'json']);
+        assert.strictEqual(code, 0);
+        const summary = JSON.parse(out);
+        assert.strictEqual(summary.total, 3);
+        assert.deepStrictEqual(summary.byStatus, { open: 1, outdated: 1, orphaned: 0, completed: 1 });
+        assert.strictEqual(summary.unresolvedBySeverity.blocker, 1);
+    });
+
+    test('check passes without unresolved blockers', async () => {
+        writeComments([entry('1', { severity: 'major' }), entry('2', { severity: 'blocker', completed: true })]);
+        const { code, out } = await runCli(['check', '--cwd', folder]);
+        assert.strictEqual(code, 0);
+        assert.match(out, /No unresolved blocker comments/);
+    });
+
+    test('check fails on an unresolved blocker', async () => {
+        writeComments([entry('1', { severity: 'blocker' })]);
+        const { code, out } = await runCli(['check', '--cwd', folder, '--format', 'json']);
+        assert.strictEqual(code, EXIT_FAILED);
+        const result = JSON.parse(out);
+        assert.strictEqual(result.passed, false);
+        assert.deepStrictEqual(result.blockers.map((comment: { id: string }) => comment.id), ['1']);
+    });
+
+    test('check errors on invalid entries, which may be blockers', async () => {
+        writeComments([entry('1'), entry('2', { severity: 'blocker', lineNumber: 'three' })]);
+        const { code, err } = await runCli(['check', '--cwd', folder]);
+        assert.strictEqual(code, EXIT_ERROR);
+        assert.match(err, /"lineNumber" must be a positive integer/);
+    });
+
+    test('list warns about invalid entries unless strict', async () => {
+        writeComments([entry('1'), entry('2', { lineNumber: 0 })]);
+        const lenient = await runCli(['list', '--cwd', folder]);
+        assert.strictEqual(lenient.code, 0);
+        assert.match(lenient.err, /^warning: /);
+        const strict = await runCli(['list', '--cwd', folder, '--strict']);
+        assert.strictEqual(strict.code, EXIT_ERROR);
+    });
+
+    test('passes with no comments file', async () => {
+        const { code, out } = await runCli(['check', '--cwd', folder]);
+        assert.strictEqual(code, 0);
+        assert.match(out, /No unresolved blocker comments/);
+    });
+
+    test('errors on usage mistakes', async () => {
+        for (const args of [[], ['frobnicate'], ['list', '--format', 'xml'], ['list', '--status', 'done'], ['list', '--storage', 'svn'], ['list', '--unknown']]) {
+            const { code, err } = await runCli([...args, '--cwd', folder]);
+            assert.strictEqual(code, EXIT_ERROR, args.join(' '));
+            if (args.length > 0) {
+                assert.match(err, /Run with --help for usage\./, args.join(' '));
+            }
+        }
+    });
+
+    test('prints the usage with --help', async () => {
+        const { code, out } = await runCli(['--help']);
+        assert.strictEqual(code, 0);
+        assert.match(out, /^Usage: code-review-comments/);
+    });
+});
+
+suite('command line output', () => {
+    test('formats comments as text, one line each', () => {
+        const comment = { ...entry('1', { severity: 'nit', endLineNumber: 5, content: 'First line\nSecond line' }) };
+        assert.strictEqual(formatComments([comment], 'text'), `src/a.ts:3-5  [open · nit · aaaaaaa]  First line`);
+        assert.strictEqual(formatComments([], 'text'), 'No comments.');
+    });
+
+    test('includes the range in JSON check results', () => {
+        const comment = entry('1');
+        const json = JSON.parse(formatCheck({ passed: false, blockers: [], range: { range: 'main..HEAD', changedFiles: ['src/a.ts'], comments: [comment] } }, 'json'));
+        assert.strictEqual(json.passed, false);
+        assert.deepStrictEqual(json.range.changedFiles, ['src/a.ts']);
+        assert.strictEqual(json.range.comments[0].status, 'open');
+    });
+});
@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import { Comment } from '../Comment';
+import { queryComments, summarizeComments } from '../comments';
+
+const HASH = 'a'.repeat(40);
+
+const comment = (overrides: Partial<Comment>): Comment => ({
+    id: overrides.id ?? 'id',
+    content: 'A comment',
+    fileName: 'src/a.ts',
+    lineNumber: 1,
+    hash: HASH,
+    parentHash: 'b'.repeat(40),
+    createdAt: '2024-01-01T12:00:00+00:00',
+    completed: false,
+    ...overrides
+});
+
+const ids = (comments: Comment[]): string[] => comments.map(c => c.id);
+
+suite('queryComments', () => {
+    const comments = [
+        comment({ id: 'open', severity: 'blocker' }),
+        comment({ id: 'outdated', outdated: true, severity: 'nit', fileName: 'src/nested/b.ts' }),
+        comment({ id: 'orphaned', orphaned: true, fileName: 'docs/c.md' }),
+        comment({ id: 'completed', completed: true, severity: 'blocker', hash: 'c'.repeat(40) }),
+        comment({ id: 'renamed', fileName: 'lib/new.ts', originalFileName: 'lib/old.ts' })
+    ];
+
+    test('returns every comment for an empty query', () => {
+        assert.deepStrictEqual(ids(queryComments(comments, {})), ids(comments));
+    });
+
+    test('filters by status', () => {
+        assert.deepStrictEqual(ids(queryComments(comments, { statuses: ['outdated', 'orphaned'] })), ['outdated', 'orphaned']);
+        assert.deepStrictEqual(ids(queryComments(comments, { statuses: ['completed'] })), ['completed']);
+    });
+
+    test('filters by severity and leaves out comments without one', () => {
+        assert.deepStrictEqual(ids(queryComments(comments, { severities: ['blocker'] })), ['open', 'completed']);
+    });
+
+    test('filters by a file or a directory', () => {
+        assert.deepStrictEqual(ids(queryComments(comments, { path: 'src/a.ts' })), ['open', 'completed']);
+        assert.deepStrictEqual(ids(queryComments(comments, { path: './src/' })), ['open', 'outdated', 'completed']);
+        // A directory only matches whole path segments.
+        assert.deepStrictEqual(ids(queryComments(comments, { path: 'sr' })), []);
+    });
+
+    test('filters by a commit prefix', () => {
+        assert.deepStrictEqual(ids(queryComments(comments, { commit: 'ccccccc' })), ['completed']);
+    });
+
+    test('matches changed files by their current or original name', () => {
+        assert.deepStrictEqual(ids(queryComments(comments, { fileNames: new Set(['lib/old.ts', 'docs/c.md']) })), ['orphaned', 'renamed']);
+    });
+
+    test('combines filters', () => {
+        assert.deepStrictEqual(ids(queryComments(comments, { statuses: ['open'], severities: ['blocker'], path: 'src' })), ['open']);
+    });
+});
+
+suite('summarizeComments', () => {
+    test('counts by status, unresolved severity and file', () => {
+        const summary = summarizeComments([
+            comment({ id: '1', severity: 'blocker' }),
+            comment({ id: '2', severity: 'blocker', completed: true }),
+            comment({ id: '3', outdated: true, fileName: 'src/b.ts' }),
+            comment({ id: '4', orphaned: true, severity: 'nit', workspaceFolder: 'other' })
+        ]);
+        assert.strictEqual(summary.total, 4);
+        assert.deepStrictEqual(summary.byStatus, { open: 1, outdated: 1, orphaned: 1, completed: 1 });
+        assert.strictEqual(summary.unresolvedBySeverity.blocker, 1);
+        assert.strictEqual(summary.unresolvedBySeverity.nit, 1);
+        assert.strictEqual(summary.unresolvedBySeverity.none, 1);
+        // The same path in another workspace folder is another file.
+        assert.strictEqual(summary.files, 3);
+    });
+
+    test('counts nothing for no comments', () => {
+        const summary = summarizeComments([]);
+        assert.strictEqual(summary.total, 0);
+        assert.strictEqual(summary.files, 0);
+        assert.ok(Object.values(summary.unresolvedBySeverity).every(count => count === 0));
+    });
+});
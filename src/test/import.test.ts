@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import { Comment } from '../Comment';
+import { CommittedRange, ExportContext } from '../export/ReviewExporter';
+import { sarifExporter } from '../export/sarifExporter';
+import { githubImporter } from '../import/githubImporter';
+import { sarifImporter } from '../import/sarifImporter';
+
+const HEAD = 'a'.repeat(40);
+const BASE = 'b'.repeat(40);
+
+const githubComment = (id: number, overrides: Record<string, unknown> = {}) => ({
+    id,
+    path: 'src/a.ts',
+    body: `Comment ${id}`,
+    commit_id: HEAD,
+    original_commit_id: HEAD,
+    line: 10,
+    original_line: 10,
+    side: 'RIGHT',
+    start_line: null,
+    start_side: null,
+    user: { login: 'octocat' },
+    created_at: '2024-01-01T12:00:00Z',
+    ...overrides
+});
+
+suite('githubImporter', () => {
+    const comments = [
+        githubComment(1, { start_line: 8, start_side: 'RIGHT' }),
+        githubComment(2, { side: 'LEFT', line: 4, original_line: 4 }),
+        githubComment(3, { in_reply_to_id: 1, body: 'A reply' })
+    ];
+
+    test('detects a list of review comments and one around them', () => {
+        assert.ok(githubImporter.detect(comments));
+        assert.ok(githubImporter.detect({ base: { sha: BASE }, comments }));
+        assert.ok(!githubImporter.detect({ comments: [{ path: 'src/a.ts' }] }));
+        assert.ok(!githubImporter.detect('comments'));
+    });
+
+    test('places comments on the base side in the base commit', () => {
+        const { comments: imported, skipped } = githubImporter.parse({ base: { sha: BASE }, comments });
+        assert.deepStrictEqual(skipped, []);
+        const [right, left] = imported;
+        assert.deepStrictEqual(
+            { lineNumber: right.lineNumber, endLineNumber: right.endLineNumber, hash: right.hash, parentHash: right.parentHash },
+            { lineNumber: 8, endLineNumber: 10, hash: HEAD, parentHash: BASE });
+        assert.deepStrictEqual(right.replies?.map(reply => reply.body), ['A reply']);
+        assert.deepStrictEqual(
+            { lineNumber: left.lineNumber, endLineNumber: left.endLineNumber, hash: left.hash },
+            { lineNumber: 4, endLineNumber: undefined, hash: BASE });
+    });
+
+    test('skips comments on the base side without a base commit', () => {
+        const { comments: imported, skipped } = githubImporter.parse(comments);
+        assert.deepStrictEqual(imported.map(comment => comment.content), ['Comment 1']);
+        assert.strictEqual(imported[0].parentHash, undefined);
+        assert.deepStrictEqual(skipped, ['src/a.ts:4: on the base side of the diff, whose commit the export doesn\'t name']);
+    });
+
+    test('keeps only the last line of a range across both sides', () => {
+        const { comments: [comment] } = githubImporter.parse([githubComment(1, { start_line: 3, start_side: 'LEFT' })]);
+        assert.strictEqual(comment.lineNumber, 10);
+        assert.strictEqual(comment.endLineNumber, undefined);
+    });
+
+    test('falls back to the original position of outdated comments', () => {
+        const { comments: [comment] } = githubImporter.parse([githubComment(1, { line: null, original_line: 7, original_commit_id: BASE })]);
+        assert.strictEqual(comment.lineNumber, 7);
+        assert.strictEqual(comment.hash, BASE);
+    });
+});
+
+suite('sarifImporter', () => {
+    const comment = (id: string, lineNumber: number, endLineNumber?: number): Comment => ({
+        id,
+        content: `Comment ${id}`,
+        fileName: 'a.ts',
+        lineNumber,
+        endLineNumber,
+        hash: BASE,
+        parentHash: '',
+        createdAt: '2024-01-01T12:00:00+00:00',
+        completed: false
+    });
+
+    const exportSarif = (comments: Comment[], committed: Map<string, CommittedRange>): unknown => {
+        const context: ExportContext = {
+            getRepositoryPath: c => `src/${c.fileName}`,
+            getExcerpt: () => undefined,
+            headCommit: HEAD,
+            range: undefined,
+            getCommittedRange: c => committed.get(c.id)
+        };
+        return JSON.parse(sarifExporter.export(comments, context));
+    };
+
+    test('reads back exported comments on their lines in the head commit', () => {
+        // Comment 1 moved down by two lines since the head commit; comment 2 has uncommitted changes.
+        const log = exportSarif([comment('1', 12, 14), comment('2', 30)], new Map([['1', { lineNumber: 10, endLineNumber: 12 }]]));
+        assert.ok(sarifImporter.detect(log));
+        const { comments: [moved, uncommitted] } = sarifImporter.parse(log);
+        assert.deepStrictEqual(
+            { path: moved.path, lineNumber: moved.lineNumber, endLineNumber: moved.endLineNumber, hash: moved.hash, content: moved.content },
+            { path: 'src/a.ts', lineNumber: 10, endLineNumber: 12, hash: HEAD, content: 'Comment 1' });
+        assert.strictEqual(uncommitted.lineNumber, 30);
+    });
+
+    test('marks results whose lines are not in the head commit', () => {
+        const log = exportSarif([comment('1', 12), comment('2', 30)], new Map([['1', { lineNumber: 10, endLineNumber: 10 }]]));
+        const results = (log as { runs: { results: { properties: Record<string, unknown> }[] }[] }).runs[0].results;
+        assert.deepStrictEqual(results.map(result => result.properties.uncommitted), [undefined, true]);
+    });
+
+    test('resolves paths against the run\'s base ids', () => {
+        const log = {
+            version: '2.1.0',
+            runs: [{
+                originalUriBaseIds: { SRC: { uri: 'src/', uriBaseId: 'ROOT' }, ROOT: { uri: 'file:///repo/' } },
+                results: [{ ruleId: 'no-unused', level: 'error', message: { text: 'Unused' }, locations: [{ physicalLocation: { artifactLocation: { uri: 'a%20b.ts', uriBaseId: 'SRC' }, region: { startLine: 3 } } }] }]
+            }]
+        };
+        const { comments: [finding] } = sarifImporter.parse(log);
+        assert.strictEqual(finding.path, '/repo/src/a b.ts');
+        assert.strictEqual(finding.content, '[no-unused] Unused');
+        assert.strictEqual(finding.severity, 'blocker');
+    });
+});
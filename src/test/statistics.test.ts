@@ -0,0 +1,41 @@
+import * as assert from 'assert';
+import { Comment } from '../Comment';
+import { statisticsToCsv } from '../statistics';
+
+const comment = (overrides: Partial<Comment>): Comment => ({
+    id: 'id',
+    content: 'A comment',
+    fileName: 'src/a.ts',
+    lineNumber: 1,
+    hash: 'a'.repeat(40),
+    parentHash: 'b'.repeat(40),
+    createdAt: '2024-01-01T12:00:00+00:00',
+    completed: false,
+    ...overrides
+});
+
+const NOW = new Date('2024-01-11T12:00:00+00:00').getTime();
+
+suite('statisticsToCsv', () => {
+    const rows = (comments: Comment[]) => statisticsToCsv(comments, NOW).split('\r\n');
+
+    test('writes one row per comment under a header', () => {
+        const [header, row, end] = rows([comment({ id: '1', severity: 'nit', author: 'Ann' })]);
+        assert.ok(header.startsWith('id,workspaceFolder,fileName,lineNumber,'));
+        assert.strictEqual(row, `1,,src/a.ts,1,1,${'a'.repeat(40)},open,nit,,Ann,2024-01-01T12:00:00+00:00,,,10,,0,A comment`);
+        assert.strictEqual(end, '');
+    });
+
+    test('quotes cells with commas, quotes and line breaks', () => {
+        const [, row] = rows([comment({ content: 'Say "no",\nthen stop' })]);
+        assert.ok(row.endsWith(',"Say ""no"",\nthen stop"'));
+    });
+
+    test('keeps text that looks like a formula as text', () => {
+        const [, row] = rows([comment({ author: '@ann', content: '=HYPERLINK("http://example.com")', category: '-1+1' })]);
+        const cells = row.split(',');
+        assert.strictEqual(cells[8], `'-1+1`);
+        assert.strictEqual(cells[9], `'@ann`);
+        assert.ok(row.endsWith(`,"'=HYPERLINK(""http://example.com"")"`));
+    });
+});
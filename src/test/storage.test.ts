@@ -0,0 +1,152 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as yaml from 'js-yaml';
+import { Comment } from '../Comment';
+import { YamlCommentStorage } from '../storage/YamlCommentStorage';
+import { CommentFileError, STORAGE_VERSION, parseCommentFile } from '../storage/schema';
+
+const entry = (id: string, overrides: Record<string, unknown> = {}) => ({
+    id,
+    content: `Comment ${id}`,
+    fileName: 'src/a.ts',
+    lineNumber: 3,
+    hash: 'a'.repeat(40),
+    parentHash: 'b'.repeat(40),
+    createdAt: '2024-01-01T12:00:00+00:00',
+    completed: false,
+    ...overrides
+});
+
+const review = {
+    id: 'r1',
+    baseRef: 'main',
+    headRef: 'feature',
+    baseHash: 'b'.repeat(40),
+    headHash: 'a'.repeat(40),
+    createdAt: '2024-01-01T12:00:00+00:00',
+    files: []
+};
+
+const ids = (entries: { id: string }[]): string[] => entries.map(e => e.id);
+
+suite('parseCommentFile', () => {
+    test('migrates a version 1 file, a bare list of comments', () => {
+        const parsed = parseCommentFile([entry('1')]);
+        assert.strictEqual(parsed.migratedFrom, 1);
+        assert.deepStrictEqual(ids(parsed.comments), ['1']);
+        assert.deepStrictEqual(parsed.reviews, []);
+    });
+
+    test('migrates a version 2 file, which has no reviews', () => {
+        const parsed = parseCommentFile({ version: 2, comments: [entry('1')] });
+        assert.strictEqual(parsed.migratedFrom, 2);
+        assert.deepStrictEqual(ids(parsed.comments), ['1']);
+        assert.deepStrictEqual(parsed.reviews, []);
+    });
+
+    test('reads a current file without migrating it', () => {
+        const parsed = parseCommentFile({ version: STORAGE_VERSION, comments: [entry('1')], reviews: [review] });
+        assert.strictEqual(parsed.migratedFrom, undefined);
+        assert.deepStrictEqual(ids(parsed.reviews), ['r1']);
+    });
+
+    test('reads an empty file as no comments', () => {
+        const parsed = parseCommentFile(undefined);
+        assert.deepStrictEqual(parsed.comments, []);
+        assert.deepStrictEqual(parsed.reviews, []);
+    });
+
+    test('keeps invalid entries apart and reports them', () => {
+        const invalid = entry('2', { lineNumber: 'three' });
+        const parsed = parseCommentFile({ version: STORAGE_VERSION, comments: [entry('1'), invalid], reviews: [] });
+        assert.deepStrictEqual(ids(parsed.comments), ['1']);
+        assert.deepStrictEqual(parsed.invalidEntries, [invalid]);
+        assert.deepStrictEqual(parsed.problems, ['comment 2 (2): "lineNumber" must be a positive integer']);
+    });
+
+    test('fills in fields older files lack and turns dates into strings', () => {
+        const { completed, parentHash, ...old } = entry('1', { createdAt: new Date('2024-01-01T12:00:00Z') });
+        const [comment] = parseCommentFile([old]).comments;
+        assert.strictEqual(comment.completed, false);
+        assert.strictEqual(comment.parentHash, '');
+        assert.strictEqual(comment.createdAt, '2024-01-01T12:00:00.000Z');
+    });
+
+    test('rejects files it can\'t read', () => {
+        assert.throws(() => parseCommentFile({ version: STORAGE_VERSION + 1, comments: [] }), /newer than this extension supports/);
+        assert.throws(() => parseCommentFile({ comments: [] }), CommentFileError);
+        assert.throws(() => parseCommentFile({ version: STORAGE_VERSION, comments: {} }), /"comments" must be a list/);
+    });
+});
+
+suite('YamlCommentStorage', () => {
+    let folder: string;
+    let storage: YamlCommentStorage;
+
+    const writeFile = (comments: unknown[]) => {
+        fs.mkdirSync(path.join(folder, '.vscode'), { recursive: true });
+        fs.writeFileSync(storage.storagePath, yaml.dump({ version: STORAGE_VERSION, comments, reviews: [] }));
+    };
+    const readFile = () => parseCommentFile(yaml.load(fs.readFileSync(storage.storagePath, 'utf8')));
+
+    setup(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'code-review-comments-'));
+        storage = new YamlCommentStorage(folder);
+    });
+
+    teardown(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    test('writes invalid entries back untouched', async () => {
+        const invalid = entry('2', { lineNumber: 0 });
+        writeFile([entry('1'), invalid]);
+        const { comments } = await storage.load();
+        const result = await storage.save({ comments, reviews: [] });
+        assert.deepStrictEqual(result, { merged: false, conflicts: [] });
+        assert.deepStrictEqual(readFile().invalidEntries, [invalid]);
+    });
+
+    test('backs up a file before migrating it', async () => {
+        fs.mkdirSync(path.join(folder, '.vscode'), { recursive: true });
+        fs.writeFileSync(storage.storagePath, yaml.dump([entry('1')]));
+        const { comments } = await storage.load();
+        await storage.save({ comments, reviews: [] });
+        assert.ok(Array.isArray(yaml.load(fs.readFileSync(storage.backupPath, 'utf8'))));
+        assert.strictEqual(readFile().migratedFrom, undefined);
+    });
+
+    test('merges changes made to the file by others', async () => {
+        writeFile([entry('1'), entry('2'), entry('3')]);
+        const { comments } = await storage.load();
+        // Someone else edits 1, deletes 3 and adds 4 ...
+        writeFile([entry('1', { content: 'Theirs' }), entry('2'), entry('4')]);
+        // ... while this window edits 2 and adds 5.
+        const ours = [comments[0], { ...comments[1], content: 'Ours' }, comments[2], entry('5') as Comment];
+        const result = await storage.save({ comments: ours, reviews: [] });
+        assert.deepStrictEqual(result, { merged: true, conflicts: [] });
+        const merged = readFile().comments;
+        assert.deepStrictEqual(ids(merged).sort(), ['1', '2', '4', '5']);
+        assert.strictEqual(merged.find(c => c.id === '1')!.content, 'Theirs');
+        assert.strictEqual(merged.find(c => c.id === '2')!.content, 'Ours');
+        assert.ok(fs.existsSync(storage.backupPath));
+    });
+
+    test('keeps the file\'s version of an entry both sides changed', async () => {
+        writeFile([entry('1')]);
+        const { comments } = await storage.load();
+        writeFile([entry('1', { content: 'Theirs' })]);
+        const result = await storage.save({ comments: [{ ...comments[0], content: 'Ours' }], reviews: [] });
+        assert.deepStrictEqual(result, { merged: true, conflicts: ['src/a.ts:3'] });
+        assert.strictEqual(readFile().comments[0].content, 'Theirs');
+    });
+
+    test('refuses to save over a file it can\'t read', async () => {
+        fs.mkdirSync(path.join(folder, '.vscode'), { recursive: true });
+        fs.writeFileSync(storage.storagePath, 'version: 99\ncomments: []\n');
+        await assert.rejects(storage.load(), CommentFileError);
+        await assert.rejects(storage.save({ comments: [], reviews: [] }), /Not saving/);
+    });
+});
@@ -0,0 +1,33 @@
+import * as os from 'os';
+import { AuthorIdentity } from '../comments';
+import { gitService } from '../git/GitService';
+
+// The git identity of each workspace folder by path, loaded up front so comments can be stamped right away.
+const identities = new Map<string, AuthorIdentity>();
+
+const getUserName = (): string => {
+    try {
+        return os.userInfo().username;
+    } catch {
+        return 'unknown';
+    }
+};
+
+// Reads `user.name` and `user.email` from the git config of each folder.
+export async function loadAuthorIdentities(folderPaths: string[]): Promise<void> {
+    const loaded = await Promise.all(folderPaths.map(async folderPath => [folderPath, await gitService.getUser(folderPath)] as const));
+    identities.clear();
+    loaded.forEach(([folderPath, identity]) => {
+        if (identity) {
+            identities.set(folderPath, identity);
+        }
+    });
+}
+
+// The identity in the folder's git config, else in any folder's, else the OS user name.
+export const getCurrentIdentity = (folderPath?: string): AuthorIdentity =>
+    (folderPath !== undefined ? identities.get(folderPath) : undefined)
+    ?? identities.values().next().value
+    ?? { name: getUserName() };
+
+export const getCurrentAuthor = (folderPath?: string): string => getCurrentIdentity(folderPath).name;
@@ -0,0 +1,15 @@
+import * as vscode from 'vscode';
+import { CommentManager } from '../CommentManager';
+
+// Asks which workspace folder to use, unless there is only one.
+export async function pickWorkspaceFolder(commentManager: CommentManager, placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+    const folders = commentManager.getWorkspaceFolders();
+    if (folders.length <= 1) {
+        return folders[0];
+    }
+    const picked = await vscode.window.showQuickPick(
+        folders.map(folder => ({ label: folder.name, description: folder.uri.fsPath, folder })),
+        { placeHolder }
+    );
+    return picked?.folder;
+}